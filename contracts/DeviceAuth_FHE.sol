@@ -4,19 +4,39 @@ import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract DeviceAuthFHE is ZamaEthereumConfig {
+    /// Provisioned -> Active <-> Suspended, any of those -> Revoked -> Decommissioned
+    enum DeviceState { Provisioned, Active, Suspended, Revoked, Decommissioned }
+
     struct Device {
         bytes32 encryptedId;
         uint256 publicKey;
         address owner;
-        bool isActive;
+        DeviceState state;
+        /// Reason code of the latest transition, interpreted off-chain (0 = unspecified)
+        uint8 stateReason;
+        uint256 stateChangedAt;
         uint256 lastAuthTime;
     }
 
+    /// EIP-712 struct signed by the device for authenticateDevice(); nonce is getAuthNonce(deviceKey)
+    bytes32 public constant DEVICE_AUTHENTICATION_TYPEHASH =
+        keccak256("DeviceAuthentication(bytes32 deviceKey,uint256 nonce,uint64 expiresAt)");
+    bytes32 private constant EIP712_DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    /// secp256k1n / 2: signatures with a higher s are malleable copies
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
     mapping(bytes32 => Device) private devices;
     mapping(address => bytes32[]) private ownerDevices;
+    mapping(bytes32 => address) private pendingOwners;
+    mapping(bytes32 => uint256) private authNonces;
 
     event DeviceRegistered(bytes32 indexed encryptedId, address indexed owner);
     event DeviceAuthenticated(bytes32 indexed encryptedId, uint256 authTime);
+    event DeviceTransferProposed(bytes32 indexed encryptedId, address indexed owner, address indexed newOwner);
+    event DeviceTransferCancelled(bytes32 indexed encryptedId, address indexed owner);
+    event DeviceTransferred(bytes32 indexed encryptedId, address indexed previousOwner, address indexed newOwner);
+    event DeviceStateChanged(bytes32 indexed encryptedId, DeviceState from, DeviceState to, uint8 reason, uint256 changedAt);
 
     modifier onlyValidProof(bytes memory proof) {
         require(proof.length > 0, "Invalid proof");
@@ -41,61 +61,128 @@ contract DeviceAuthFHE is ZamaEthereumConfig {
             encryptedId: FHE.toBytes32(internalEncryptedId),
             publicKey: publicKey,
             owner: owner,
-            isActive: true,
+            state: DeviceState.Provisioned,
+            stateReason: 0,
+            stateChangedAt: block.timestamp,
             lastAuthTime: 0
         });
 
         ownerDevices[owner].push(idHash);
         FHE.allowThis(internalEncryptedId);
+        FHE.allow(internalEncryptedId, owner);
         FHE.makePubliclyDecryptable(internalEncryptedId);
 
         emit DeviceRegistered(idHash, owner);
     }
 
+    /// The device proves presence by signing DeviceAuthentication(deviceKey, getAuthNonce(deviceKey), expiresAt)
+    /// with the key registered as its publicKey (the device address as uint256). The nonce is consumed on success,
+    /// so a mined signature cannot be replayed. abiEncodedDeviceId and authProof are the KMS public decryption
+    /// of the device's encrypted ID.
+    /// Breaking change: replaces authenticateDevice(bytes32,bytes,uint256); callers built against that ABI must
+    /// pass the decrypted ID, the KMS proof, the challenge expiry and the device signature.
     function authenticateDevice(
         bytes32 encryptedId,
+        bytes calldata abiEncodedDeviceId,
         bytes calldata authProof,
-        uint256 authTimestamp
+        uint64 expiresAt,
+        bytes calldata deviceSignature
     ) external onlyValidProof(authProof) {
         Device storage device = devices[encryptedId];
         require(device.owner != address(0), "Device not found");
-        require(device.isActive, "Device inactive");
+        require(
+            device.state == DeviceState.Provisioned || device.state == DeviceState.Active,
+            "Device inactive"
+        );
+        require(block.timestamp <= expiresAt, "Challenge expired");
+
+        uint256 nonce = authNonces[encryptedId];
+        bytes32 digest = _hashTypedData(
+            keccak256(abi.encode(DEVICE_AUTHENTICATION_TYPEHASH, encryptedId, nonce, expiresAt))
+        );
+        address signer = _recoverSigner(digest, deviceSignature);
+        require(signer != address(0) && uint256(uint160(signer)) == device.publicKey, "Invalid device signature");
 
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = device.encryptedId;
+        FHE.checkSignatures(cts, abiEncodedDeviceId, authProof);
 
-        bytes memory abiEncoded = abi.encode(authTimestamp);
-        FHE.checkSignatures(cts, abiEncoded, authProof);
+        authNonces[encryptedId] = nonce + 1;
+        device.lastAuthTime = block.timestamp;
+        emit DeviceAuthenticated(encryptedId, block.timestamp);
 
-        device.lastAuthTime = authTimestamp;
-        emit DeviceAuthenticated(encryptedId, authTimestamp);
+        // The first successful authentication brings a provisioned device into service
+        if (device.state == DeviceState.Provisioned) {
+            _setState(encryptedId, device, DeviceState.Active, 0);
+        }
     }
 
+    /// Nonce the device must sign for its next authenticateDevice()
+    function getAuthNonce(bytes32 encryptedId) external view returns (uint256) {
+        return authNonces[encryptedId];
+    }
+
+    /// isActive keeps its original meaning, "in service": true from registration until the device is
+    /// suspended or retired, so it also covers Provisioned devices. `state` has the exact lifecycle state.
     function getDevice(bytes32 encryptedId) external view returns (
         uint256 publicKey,
         address owner,
         bool isActive,
-        uint256 lastAuthTime
+        uint256 lastAuthTime,
+        DeviceState state,
+        uint8 stateReason,
+        uint256 stateChangedAt
     ) {
         Device storage device = devices[encryptedId];
         require(device.owner != address(0), "Device not found");
-        return (device.publicKey, device.owner, device.isActive, device.lastAuthTime);
+        return (
+            device.publicKey,
+            device.owner,
+            device.state == DeviceState.Provisioned || device.state == DeviceState.Active,
+            device.lastAuthTime,
+            device.state,
+            device.stateReason,
+            device.stateChangedAt
+        );
     }
 
     function getOwnerDevices() external view returns (bytes32[] memory) {
         return ownerDevices[msg.sender];
     }
 
+    /// Kept for existing integrations: suspends the device, which can later be reactivated
     function deactivateDevice(bytes32 encryptedId) external {
-        Device storage device = devices[encryptedId];
-        require(device.owner == msg.sender, "Not device owner");
-        device.isActive = false;
+        _transition(encryptedId, DeviceState.Suspended, 0);
+    }
+
+    function activateDevice(bytes32 encryptedId) external {
+        require(devices[encryptedId].state == DeviceState.Provisioned, "Invalid state transition");
+        _transition(encryptedId, DeviceState.Active, 0);
+    }
+
+    function suspendDevice(bytes32 encryptedId, uint8 reason) external {
+        _transition(encryptedId, DeviceState.Suspended, reason);
+    }
+
+    function reactivateDevice(bytes32 encryptedId) external {
+        require(devices[encryptedId].state == DeviceState.Suspended, "Invalid state transition");
+        _transition(encryptedId, DeviceState.Active, 0);
     }
 
+    function revokeDevice(bytes32 encryptedId, uint8 reason) external {
+        _transition(encryptedId, DeviceState.Revoked, reason);
+    }
+
+    function decommissionDevice(bytes32 encryptedId, uint8 reason) external {
+        _transition(encryptedId, DeviceState.Decommissioned, reason);
+    }
+
+    /// Not view because FHE.checkSignatures emits PublicDecryptionVerified; query it with eth_call.
+    /// Reverts (KMSVerifier's KMSInvalidSigner) when the proof does not attest the current owner.
     function verifyDeviceOwnership(
         bytes32 encryptedId,
         bytes calldata ownershipProof
-    ) external view onlyValidProof(ownershipProof) returns (bool) {
+    ) external onlyValidProof(ownershipProof) returns (bool) {
         Device storage device = devices[encryptedId];
         require(device.owner != address(0), "Device not found");
 
@@ -103,7 +190,8 @@ contract DeviceAuthFHE is ZamaEthereumConfig {
         cts[0] = device.encryptedId;
 
         bytes memory abiEncoded = abi.encode(device.owner);
-        return FHE.checkSignatures(cts, abiEncoded, ownershipProof);
+        FHE.checkSignatures(cts, abiEncoded, ownershipProof);
+        return true;
     }
 
     function getEncryptedId(bytes32 encryptedId) external view returns (bytes32) {
@@ -111,5 +199,114 @@ contract DeviceAuthFHE is ZamaEthereumConfig {
         require(device.owner != address(0), "Device not found");
         return device.encryptedId;
     }
+
+    function proposeTransfer(bytes32 encryptedId, address newOwner) external {
+        Device storage device = devices[encryptedId];
+        require(device.owner == msg.sender, "Not device owner");
+        require(!_isRetired(device.state), "Device retired");
+        require(newOwner != address(0) && newOwner != msg.sender, "Invalid new owner");
+
+        pendingOwners[encryptedId] = newOwner;
+        emit DeviceTransferProposed(encryptedId, msg.sender, newOwner);
+    }
+
+    function cancelTransfer(bytes32 encryptedId) external {
+        require(devices[encryptedId].owner == msg.sender, "Not device owner");
+        require(pendingOwners[encryptedId] != address(0), "No pending transfer");
+
+        delete pendingOwners[encryptedId];
+        emit DeviceTransferCancelled(encryptedId, msg.sender);
+    }
+
+    function acceptTransfer(bytes32 encryptedId) external {
+        require(pendingOwners[encryptedId] == msg.sender, "Not pending owner");
+        Device storage device = devices[encryptedId];
+        require(!_isRetired(device.state), "Device retired");
+        address previousOwner = device.owner;
+
+        delete pendingOwners[encryptedId];
+        _removeOwnerDevice(previousOwner, encryptedId);
+        ownerDevices[msg.sender].push(encryptedId);
+        device.owner = msg.sender;
+
+        // ACL grants cannot be revoked; the new owner gets its own permission on the encrypted ID
+        FHE.allow(euint32.wrap(device.encryptedId), msg.sender);
+
+        emit DeviceTransferred(encryptedId, previousOwner, msg.sender);
+    }
+
+    function getPendingOwner(bytes32 encryptedId) external view returns (address) {
+        return pendingOwners[encryptedId];
+    }
+
+    function _transition(bytes32 encryptedId, DeviceState to, uint8 reason) private {
+        Device storage device = devices[encryptedId];
+        require(device.owner == msg.sender, "Not device owner");
+        require(_canTransition(device.state, to), "Invalid state transition");
+        _setState(encryptedId, device, to, reason);
+    }
+
+    function _setState(bytes32 encryptedId, Device storage device, DeviceState to, uint8 reason) private {
+        DeviceState from = device.state;
+        device.state = to;
+        device.stateReason = reason;
+        device.stateChangedAt = block.timestamp;
+        emit DeviceStateChanged(encryptedId, from, to, reason, block.timestamp);
+    }
+
+    function _canTransition(DeviceState from, DeviceState to) private pure returns (bool) {
+        if (from == DeviceState.Provisioned) {
+            return to == DeviceState.Active || to == DeviceState.Suspended || to == DeviceState.Revoked;
+        }
+        if (from == DeviceState.Active) {
+            return to == DeviceState.Suspended || to == DeviceState.Revoked;
+        }
+        if (from == DeviceState.Suspended) {
+            return to == DeviceState.Active || to == DeviceState.Revoked;
+        }
+        if (from == DeviceState.Revoked) {
+            return to == DeviceState.Decommissioned;
+        }
+        return false;
+    }
+
+    function _hashTypedData(bytes32 structHash) private view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(
+                EIP712_DOMAIN_TYPEHASH,
+                keccak256(bytes("DeviceAuthFHE")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    /// address(0) for malformed or malleable signatures
+    function _recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (uint256(s) > MAX_SIGNATURE_S || (v != 27 && v != 28)) return address(0);
+        return ecrecover(digest, v, r, s);
+    }
+
+    /// Revoked and decommissioned devices keep their owner: they can no longer change hands
+    function _isRetired(DeviceState state) private pure returns (bool) {
+        return state == DeviceState.Revoked || state == DeviceState.Decommissioned;
+    }
+
+    function _removeOwnerDevice(address owner, bytes32 encryptedId) private {
+        bytes32[] storage keys = ownerDevices[owner];
+        for (uint256 i = 0; i < keys.length; i++) {
+            if (keys[i] == encryptedId) {
+                keys[i] = keys[keys.length - 1];
+                keys.pop();
+                return;
+            }
+        }
+    }
 }
 
@@ -337,6 +337,7 @@ async function main() {
     const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
     const factory = await UniversalFHEAdapterFactory.deploy();
     await factory.waitForDeployment();
+    const deploymentReceipt = await factory.deploymentTransaction()?.wait();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
     console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
@@ -361,6 +362,8 @@ async function main() {
       const config = {
         network: rpc,
         contractAddress: deployedAddress,
+        // Where the dashboard's event indexer starts
+        contractDeploymentBlock: deploymentReceipt?.blockNumber ?? null,
         deployer: wallet.address,
       };
       fs.writeFileSync(
@@ -0,0 +1,172 @@
+/**
+ * Heartbeat Server - Node.js Adapter
+ * HTTP endpoint that ingests signed device heartbeats and serves the
+ * resulting time series to the dashboard
+ */
+
+import { ethers } from 'ethers';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { resolveNodeProvider } from '../core/client.js';
+import { DeviceAuthClient } from '../core/deviceAuth.js';
+import { HeartbeatRejectedError } from '../core/errors.js';
+import { HeartbeatService, HeartbeatServiceOptions, SignedHeartbeat } from '../core/heartbeat.js';
+import { DEFAULT_LOGGER, FhevmLogger } from '../core/logger.js';
+import { FhevmNetworkName, FhevmNetworkProfile, resolveNetworkProfile } from '../core/networks.js';
+
+export interface HeartbeatServerOptions {
+  /** Defaults to 8787 */
+  port?: number;
+  /** Defaults to all interfaces */
+  host?: string;
+  /**
+   * Browser origins allowed to call the server, e.g. the dashboard's 'https://app.example.com'.
+   * '*' allows any origin. Defaults to none: only same-origin pages and non-browser clients.
+   */
+  allowedOrigins?: string[];
+  /** Receives the listening port and failed requests. Defaults to errors on the console, info dropped */
+  logger?: FhevmLogger;
+}
+
+export interface HeartbeatServer {
+  port: number;
+  close(): Promise<void>;
+}
+
+export interface StartHeartbeatServiceOptions extends HeartbeatServerOptions, HeartbeatServiceOptions {
+  deviceAuthAddress: string;
+  /** Built-in profile name or a full custom profile. Defaults to 'sepolia' */
+  network?: FhevmNetworkName | FhevmNetworkProfile;
+  rpcUrl?: string;
+  rpcUrls?: string[];
+  provider?: ethers.JsonRpcApiProvider;
+}
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new HeartbeatRejectedError('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * CORS headers for the request's Origin, if it is allowed
+ */
+function corsHeaders(req: IncomingMessage, allowedOrigins: string[]): Record<string, string> {
+  const origin = req.headers.origin;
+  if (!origin) return {};
+  if (allowedOrigins.includes('*')) {
+    return { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type' };
+  }
+  if (!allowedOrigins.includes(origin)) return { Vary: 'Origin' };
+  return { 'Access-Control-Allow-Origin': origin, 'Access-Control-Allow-Headers': 'Content-Type', Vary: 'Origin' };
+}
+
+function optionalInt(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed)) throw new HeartbeatRejectedError(`Invalid integer query parameter: ${value}`);
+  return parsed;
+}
+
+/**
+ * Routes:
+ * - POST /heartbeats                        SignedHeartbeat JSON -> stored record
+ * - GET  /heartbeats/domain                 EIP-712 domain devices must sign with
+ * - GET  /heartbeats/latest                 latest record of every device
+ * - GET  /heartbeats/summary                HeartbeatSummary for the dashboard stats
+ * - GET  /devices/:deviceKey/heartbeats     time series, optional ?from=&to= (Unix seconds)
+ */
+export async function createHeartbeatServer(
+  service: HeartbeatService,
+  options: HeartbeatServerOptions = {}
+): Promise<HeartbeatServer> {
+  // Use eval to prevent bundlers from analyzing Node-only imports
+  const http: typeof import('http') = await eval('import("http")');
+  const allowedOrigins = options.allowedOrigins ?? [];
+  const logger = options.logger ?? DEFAULT_LOGGER;
+
+  const server = http.createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(req, allowedOrigins) });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const series = url.pathname.match(/^\/devices\/(0x[0-9a-fA-F]{64})\/heartbeats$/);
+
+      if (req.method === 'OPTIONS') {
+        send(204, null);
+      } else if (req.method === 'POST' && url.pathname === '/heartbeats') {
+        let heartbeat: SignedHeartbeat;
+        try {
+          heartbeat = JSON.parse(await readBody(req));
+        } catch (error) {
+          throw error instanceof HeartbeatRejectedError ? error : new HeartbeatRejectedError('Body must be JSON');
+        }
+        if (!heartbeat?.payload || typeof heartbeat.signature !== 'string') {
+          throw new HeartbeatRejectedError('Expected { payload, signature }');
+        }
+        send(201, await service.ingest(heartbeat));
+      } else if (req.method === 'GET' && url.pathname === '/heartbeats/domain') {
+        send(200, service.heartbeatDomain);
+      } else if (req.method === 'GET' && url.pathname === '/heartbeats/latest') {
+        send(200, await service.getLatest());
+      } else if (req.method === 'GET' && url.pathname === '/heartbeats/summary') {
+        send(200, await service.getSummary());
+      } else if (req.method === 'GET' && series) {
+        const from = optionalInt(url.searchParams.get('from'));
+        const to = optionalInt(url.searchParams.get('to'));
+        send(200, await service.getSeries(series[1], from, to));
+      } else {
+        send(404, { error: 'Not found' });
+      }
+    } catch (error: unknown) {
+      if (error instanceof HeartbeatRejectedError) {
+        send(400, { error: error.message });
+      } else {
+        logger.error('❌ Heartbeat request failed:', error);
+        send(500, { error: 'Internal error' });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8787, options.host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+  logger.info(`💓 Heartbeat server listening on port ${port}`);
+
+  return {
+    port,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+/**
+ * Resolve the network and provider like the Node.js FHEVM client does, then start the service and server
+ */
+export async function startHeartbeatService(
+  options: StartHeartbeatServiceOptions
+): Promise<{ service: HeartbeatService; server: HeartbeatServer }> {
+  const profile = resolveNetworkProfile(options.network);
+  const provider = await resolveNodeProvider(profile, options);
+  const deviceAuth = new DeviceAuthClient(options.deviceAuthAddress, provider);
+
+  const service = new HeartbeatService(deviceAuth, profile.chainId, options);
+  const server = await createHeartbeatServer(service, options);
+  return { service, server };
+}
@@ -3,22 +3,43 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import type { ethers } from 'ethers';
+import { batchDecryptValues, FheInputType, publicDecryptV09, toFhevmError } from '../core/index.js';
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
 
+  /**
+   * EIP-712 user decryption; values are bigint, boolean (ebool) or address (eaddress) per handle
+   */
+  const decrypt = useCallback(async (handles: string[], contractAddress: string, signer?: ethers.Signer) => {
+    setIsDecrypting(true);
+    setError('');
+
+    try {
+      return await batchDecryptValues(handles, contractAddress, signer);
+    } catch (err) {
+      const error = toFhevmError(err);
+      setError(error.message || 'Decryption failed');
+      throw error;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, []);
+
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    /** Expected FHE type of each handle; a handle of another type is rejected before decryption */
+    types?: readonly FheInputType[]
   ) => {
     setIsDecrypting(true);
     setError('');
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
+      const decryptionResult = await publicDecryptV09(handles, types);
       
       const tx = await verifyFunction(
         decryptionResult.abiEncodedClearValues,
@@ -32,14 +53,17 @@ export function useDecrypt() {
         transactionReceipt: receipt
       };
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      // Also covers the verify transaction: rejections and reverts surface as typed errors
+      const error = toFhevmError(err);
+      setError(error.message || 'Decryption verification failed');
+      throw error;
     } finally {
       setIsDecrypting(false);
     }
   }, []);
 
   return {
+    decrypt,
     verifyDecryption,
     isDecrypting,
     error,
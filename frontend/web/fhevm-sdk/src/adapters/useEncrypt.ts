@@ -3,7 +3,7 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { createEncryptedInput, toFhevmError } from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
@@ -17,8 +17,9 @@ export function useEncrypt() {
       const result = await createEncryptedInput(contractAddress, userAddress, value);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const error = toFhevmError(err);
+      setError(error.message || 'Encryption failed');
+      throw error;
     } finally {
       setIsEncrypting(false);
     }
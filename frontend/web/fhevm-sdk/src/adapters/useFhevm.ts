@@ -3,24 +3,24 @@
  */
 
 import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { initializeFheInstance, InitializeFheOptions, RelayerInstance, toFhevmError } from '../core/index.js';
 
 export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
+  const [instance, setInstance] = useState<RelayerInstance | null>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string>('');
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (options?: InitializeFheOptions) => {
     setStatus('loading');
     setError('');
     
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance(options);
       setInstance(fheInstance);
       setStatus('ready');
       console.log('✅ FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
+      setError(toFhevmError(err).message || 'Unknown error');
       setStatus('error');
       console.error('❌ FHEVM initialization failed:', err);
     }
@@ -0,0 +1,358 @@
+#!/usr/bin/env node
+/**
+ * fhe-device - Node.js CLI
+ * Headless DeviceAuthFHE operations on top of the SDK's Node.js path
+ *
+ *   fhe-device register <deviceId> --public-key <uint256|address>
+ *   fhe-device challenge <deviceKey> [--ttl <seconds>]
+ *   fhe-device authenticate <deviceKey> --expires-at <unix> --signature <hex>
+ *   fhe-device deactivate <deviceKey> [--reason <reason>]
+ *   fhe-device list [--owner <address>] [--from-block <n>]
+ *   fhe-device show <deviceKey>
+ *   fhe-device decrypt <handle> [--user]
+ *   fhe-device verify-ownership <deviceKey> [--proof <hex>]
+ *
+ * Common options: --network <name|profile.json> --rpc <url>... --contract <address>
+ *                 --keystore <file> --password-file <file> --session-file <file> --json
+ * Environment:    FHE_DEVICE_NETWORK, FHE_DEVICE_RPC, FHE_DEVICE_CONTRACT, FHE_DEVICE_KEYSTORE, FHE_DEVICE_PASSWORD,
+ *                 FHE_DEVICE_SESSION_FILE
+ */
+
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import { ethers } from 'ethers';
+import { CHALLENGE_TYPES, fetchDeviceAuthProof } from '../core/challenge.js';
+import { FhevmClient, createFhevmClient, resolveNodeProvider } from '../core/client.js';
+import { FileSessionStore } from '../core/decryptionSession.js';
+import { DeviceAuthClient } from '../core/deviceAuth.js';
+import { DEVICE_STATE_REASONS, DeviceStateReason } from '../core/deviceLifecycle.js';
+import { FheInputType } from '../core/encryptedInput.js';
+import { InvalidHandleError } from '../core/errors.js';
+import { parseHandle } from '../core/handles.js';
+import { DeviceIndexer } from '../core/indexer.js';
+import { FhevmNetworkName, FhevmNetworkProfile, NETWORK_PROFILES, getDeploymentBlock, resolveNetworkProfile } from '../core/networks.js';
+
+const USAGE = `Usage: fhe-device <command> [arguments] [options]
+
+Commands:
+  register <deviceId> --public-key <key>   Encrypt a device ID and register it
+  challenge <deviceKey> [--ttl <s>]        Typed data the device signs for its next authentication (default ttl: 300)
+  authenticate <deviceKey>                 Authenticate with the device's signed challenge and a KMS proof
+       --expires-at <unix> --signature <hex>
+  deactivate <deviceKey> [--reason <r>]    Suspend a device (reasons: ${DEVICE_STATE_REASONS.join(', ')})
+  list [--owner <address>]                 Devices registered to an owner (default: keystore address)
+       [--from-block <n>]                  First block to index (default: the profile's deploymentBlocks entry)
+  show <deviceKey>                         Device record and pending transfer
+  decrypt <handle> [--user]                Public decryption, or user decryption with --user
+  verify-ownership <deviceKey>             Check a KMS ownership proof (--proof, default: fetched)
+
+Options:
+  --network <name|file>    Built-in profile (${Object.keys(NETWORK_PROFILES).join(', ')}) or a JSON profile file
+  --rpc <url>              JSON-RPC endpoint, repeatable (failover pool)
+  --contract <address>     DeviceAuthFHE address
+  --keystore <file>        Encrypted JSON keystore used to sign
+  --password-file <file>   Keystore password (default: FHE_DEVICE_PASSWORD or prompt)
+  --session-file <file>    Keep user-decryption sessions in this file (mode 0600) so later runs
+                           skip the signature prompt; default: memory, one signature per run
+  --json                   Machine-readable output
+  -h, --help               Show this help`;
+
+const OPTIONS = {
+  network: { type: 'string' },
+  rpc: { type: 'string', multiple: true },
+  contract: { type: 'string' },
+  keystore: { type: 'string' },
+  'password-file': { type: 'string' },
+  'session-file': { type: 'string' },
+  'public-key': { type: 'string' },
+  reason: { type: 'string' },
+  owner: { type: 'string' },
+  'from-block': { type: 'string' },
+  proof: { type: 'string' },
+  ttl: { type: 'string' },
+  'expires-at': { type: 'string' },
+  signature: { type: 'string' },
+  user: { type: 'boolean' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+/**
+ * Usage mistakes: printed with the help text, exit code 2
+ */
+class UsageError extends Error {}
+
+class CliContext {
+  private values: CliValues;
+  private wallet?: Promise<ethers.Wallet>;
+  private fhevm?: Promise<FhevmClient>;
+  readonly profile: FhevmNetworkProfile;
+  readonly rpcUrls?: string[];
+
+  constructor(values: CliValues, profile: FhevmNetworkProfile) {
+    this.values = values;
+    this.profile = profile;
+    const rpc = values.rpc ?? process.env.FHE_DEVICE_RPC?.split(',');
+    this.rpcUrls = rpc?.map((url) => url.trim()).filter(Boolean);
+  }
+
+  provider(): Promise<ethers.JsonRpcApiProvider> {
+    return resolveNodeProvider(this.profile, { rpcUrls: this.rpcUrls });
+  }
+
+  /**
+   * Keystore wallet connected to the resolved provider (decrypted once)
+   */
+  signer(): Promise<ethers.Wallet> {
+    this.wallet ??= (async () => {
+      const keystorePath = this.values.keystore ?? process.env.FHE_DEVICE_KEYSTORE;
+      if (!keystorePath) throw new UsageError('This command signs transactions: pass --keystore <file>');
+      const keystore = await readFile(keystorePath, 'utf8');
+      const password = await readPassword(this.values['password-file']);
+      const wallet = await ethers.Wallet.fromEncryptedJson(keystore, password);
+      return new ethers.Wallet(wallet.privateKey, await this.provider());
+    })();
+    return this.wallet;
+  }
+
+  /**
+   * FHEVM client on the Node.js path; signer-backed only when a keystore is given
+   */
+  client(withSigner = false): Promise<FhevmClient> {
+    this.fhevm ??= (async () => {
+      const signer = withSigner ? await this.signer() : undefined;
+      const sessionFile = this.values['session-file'] ?? process.env.FHE_DEVICE_SESSION_FILE;
+      return createFhevmClient({
+        network: this.profile,
+        rpcUrls: this.rpcUrls,
+        signer,
+        provider: await this.provider(),
+        decryptionSession: sessionFile ? { store: new FileSessionStore(sessionFile) } : undefined,
+      });
+    })();
+    return this.fhevm;
+  }
+
+  async deviceAuth(options: { sign?: boolean; fhevm?: boolean } = {}): Promise<DeviceAuthClient> {
+    const address = this.values.contract ?? process.env.FHE_DEVICE_CONTRACT;
+    if (!address || !ethers.isAddress(address)) throw new UsageError('Pass the DeviceAuthFHE address with --contract <address>');
+    const runner = options.sign ? await this.signer() : await this.provider();
+    const client = options.fhevm ? await this.client(options.sign) : undefined;
+    return new DeviceAuthClient(address, runner, client);
+  }
+}
+
+async function readPassword(passwordFile?: string): Promise<string> {
+  if (passwordFile) return (await readFile(passwordFile, 'utf8')).replace(/\r?\n$/, '');
+  if (process.env.FHE_DEVICE_PASSWORD !== undefined) return process.env.FHE_DEVICE_PASSWORD;
+  if (!process.stdin.isTTY) throw new UsageError('No keystore password: use --password-file or FHE_DEVICE_PASSWORD');
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return await rl.question('Keystore password: ');
+  } finally {
+    rl.close();
+  }
+}
+
+async function loadProfile(network?: string): Promise<FhevmNetworkProfile> {
+  if (!network || network in NETWORK_PROFILES) return resolveNetworkProfile(network as FhevmNetworkName | undefined);
+  return resolveNetworkProfile(JSON.parse(await readFile(network, 'utf8')) as FhevmNetworkProfile);
+}
+
+function requireArg(positionals: string[], index: number, name: string): string {
+  const value = positionals[index];
+  if (!value) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+function requireDeviceKey(positionals: string[]): string {
+  const deviceKey = requireArg(positionals, 1, 'deviceKey');
+  if (!ethers.isHexString(deviceKey, 32)) throw new UsageError(`<deviceKey> must be a 0x-prefixed bytes32, got ${deviceKey}`);
+  return deviceKey;
+}
+
+function parsePublicKey(value: string | undefined): bigint {
+  if (!value) throw new UsageError('Missing --public-key <uint256|address>');
+  try {
+    return BigInt(value);
+  } catch {
+    throw new UsageError(`--public-key must be an integer or an address, got ${value}`);
+  }
+}
+
+type CommandResult = Record<string, unknown> | Record<string, unknown>[];
+
+const COMMANDS: Record<string, (ctx: CliContext, positionals: string[], values: CliValues) => Promise<CommandResult>> = {
+  async register(ctx, positionals, values) {
+    const rawId = requireArg(positionals, 1, 'deviceId');
+    const deviceId = Number(rawId);
+    if (!Number.isSafeInteger(deviceId) || deviceId < 0) throw new UsageError(`<deviceId> must be a non-negative integer, got ${rawId}`);
+
+    const deviceAuth = await ctx.deviceAuth({ sign: true, fhevm: true });
+    const { deviceKey, receipt } = await deviceAuth.registerDevice(deviceId, parsePublicKey(values['public-key']));
+    return { deviceKey, txHash: receipt.hash, blockNumber: receipt.blockNumber };
+  },
+
+  async challenge(ctx, positionals, values) {
+    const deviceKey = requireDeviceKey(positionals);
+    const ttl = Number(values.ttl ?? 300);
+    if (!Number.isSafeInteger(ttl) || ttl <= 0) throw new UsageError(`--ttl must be a positive number of seconds, got ${values.ttl}`);
+
+    const deviceAuth = await ctx.deviceAuth();
+    const { chainId } = await (await ctx.provider()).getNetwork();
+    const nonce = await deviceAuth.getAuthNonce(deviceKey);
+    const expiresAt = Math.floor(Date.now() / 1000) + ttl;
+    return {
+      domain: JSON.stringify({ name: 'DeviceAuthFHE', version: '1', chainId: Number(chainId), verifyingContract: deviceAuth.address }),
+      types: JSON.stringify(CHALLENGE_TYPES),
+      deviceKey,
+      nonce: nonce.toString(),
+      expiresAt,
+    };
+  },
+
+  async authenticate(ctx, positionals, values) {
+    const deviceKey = requireDeviceKey(positionals);
+    const expiresAt = Number(values['expires-at']);
+    if (!Number.isSafeInteger(expiresAt)) throw new UsageError('Pass the signed challenge expiry with --expires-at <unix seconds>');
+    const signature = values.signature;
+    if (!signature || !ethers.isHexString(signature, 65)) throw new UsageError('Pass the device signature with --signature <65-byte hex>');
+
+    const deviceAuth = await ctx.deviceAuth({ sign: true, fhevm: true });
+    const proof = await fetchDeviceAuthProof(deviceAuth, deviceKey, await ctx.client(true));
+    const { event, receipt } = await deviceAuth.authenticateDevice(
+      deviceKey,
+      proof.abiEncodedDeviceId,
+      proof.authProof,
+      expiresAt,
+      signature
+    );
+    return { deviceKey, authTime: event.authTime, txHash: receipt.hash, blockNumber: receipt.blockNumber };
+  },
+
+  async deactivate(ctx, positionals, values) {
+    const deviceKey = requireDeviceKey(positionals);
+    const reason = (values.reason ?? 'unspecified') as DeviceStateReason;
+    if (!DEVICE_STATE_REASONS.includes(reason)) {
+      throw new UsageError(`Unknown --reason ${reason}. Expected one of: ${DEVICE_STATE_REASONS.join(', ')}`);
+    }
+    const deviceAuth = await ctx.deviceAuth({ sign: true });
+    const { event, receipt } = await deviceAuth.suspendDevice(deviceKey, reason);
+    return { deviceKey, from: event.from, to: event.to, reason: event.reason, txHash: receipt.hash };
+  },
+
+  async list(ctx, _positionals, values) {
+    const owner = values.owner ?? (await ctx.signer()).address;
+    if (!ethers.isAddress(owner)) throw new UsageError(`--owner must be an address, got ${owner}`);
+    const fromBlock = values['from-block'] === undefined ? undefined : Number(values['from-block']);
+    if (fromBlock !== undefined && !Number.isSafeInteger(fromBlock)) throw new UsageError('--from-block must be a block number');
+
+    // Any owner's devices come from the event log; getOwnerDevices() only answers for msg.sender
+    const deviceAuth = await ctx.deviceAuth();
+    const indexer = new DeviceIndexer(await ctx.provider(), {
+      deviceAuthAddress: deviceAuth.address,
+      fromBlock: fromBlock ?? getDeploymentBlock(ctx.profile, deviceAuth.address),
+    });
+    await indexer.sync();
+    return indexer.getByOwner(owner).map((device) => ({
+      deviceKey: device.id,
+      owner: device.owner,
+      state: device.state,
+      stateReason: device.stateReason,
+      status: device.status,
+      registeredAt: device.createdAt,
+      lastAuthTime: device.lastAuthTime,
+      pendingOwner: device.pendingOwner,
+    }));
+  },
+
+  async show(ctx, positionals) {
+    const deviceKey = requireDeviceKey(positionals);
+    const deviceAuth = await ctx.deviceAuth();
+    const [device, pendingOwner] = await Promise.all([deviceAuth.getDevice(deviceKey), deviceAuth.getPendingOwner(deviceKey)]);
+    return { ...device, pendingOwner };
+  },
+
+  async decrypt(ctx, positionals, values) {
+    const handle = requireArg(positionals, 1, 'handle');
+    let type: FheInputType;
+    try {
+      ({ type } = parseHandle(handle));
+    } catch (error) {
+      if (error instanceof InvalidHandleError) throw new UsageError(`<handle>: ${error.message}`);
+      throw error;
+    }
+
+    if (values.user) {
+      const deviceAuth = await ctx.deviceAuth({ sign: true });
+      const client = await ctx.client(true);
+      const clearValues = await client.userDecrypt([handle], deviceAuth.address);
+      return { handle, type, value: clearValues[handle] };
+    }
+    const result = await (await ctx.client()).publicDecrypt([handle]);
+    return { handle, type, value: result.clearValues[handle], decryptionProof: result.decryptionProof };
+  },
+
+  async 'verify-ownership'(ctx, positionals, values) {
+    const deviceKey = requireDeviceKey(positionals);
+    const deviceAuth = await ctx.deviceAuth();
+    const proof = values.proof ?? (await fetchDeviceAuthProof(deviceAuth, deviceKey, await ctx.client())).authProof;
+    const { owner } = await deviceAuth.getDevice(deviceKey);
+    return { deviceKey, owner, verified: await deviceAuth.verifyDeviceOwnership(deviceKey, proof) };
+  },
+};
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+function printHuman(result: CommandResult) {
+  const records = Array.isArray(result) ? result : [result];
+  if (records.length === 0) console.log('No devices found');
+  records.forEach((record, i) => {
+    if (i > 0) console.log('');
+    for (const [key, value] of Object.entries(record)) {
+      if (value !== undefined && value !== null) console.log(`${key.padEnd(16)} ${value}`);
+    }
+  });
+}
+
+async function runCli(argv: string[]): Promise<number> {
+  let values: CliValues;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true }));
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const command = Object.prototype.hasOwnProperty.call(COMMANDS, positionals[0] ?? '') ? COMMANDS[positionals[0]] : undefined;
+  if (values.help || !command) {
+    if (!values.help) console.error(positionals[0] ? `Unknown command: ${positionals[0]}\n` : '');
+    console.error(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  try {
+    const ctx = new CliContext(values, await loadProfile(values.network ?? process.env.FHE_DEVICE_NETWORK));
+    const result = await command(ctx, positionals, values);
+    if (values.json) console.log(toJson(result));
+    else printHuman(result);
+    return 0;
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (values.json) console.log(toJson({ error: error?.name ?? 'Error', message: error?.message ?? String(error) }));
+    else console.error(`❌ ${error?.message ?? error}`);
+    return 1;
+  }
+}
+
+runCli(process.argv.slice(2)).then((code) => process.exit(code));
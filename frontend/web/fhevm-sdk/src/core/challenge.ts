@@ -0,0 +1,233 @@
+/**
+ * Challenge-Response Authentication - Universal SDK
+ * The gateway issues the device's on-chain auth nonce, the device signs it with the key registered
+ * as its publicKey, and authenticateDevice() verifies that signature and consumes the nonce on-chain
+ */
+
+import { ethers } from 'ethers';
+import { FhevmClient } from './client.js';
+import { AuthenticateDeviceResult, DeviceAuthClient, DeviceInfo } from './deviceAuth.js';
+import { canAuthenticate } from './deviceLifecycle.js';
+import { ChallengeRejectedError, DeviceNotFoundError } from './errors.js';
+import { publicDecryptV09 } from './fhevm.js';
+
+export interface AuthChallenge {
+  deviceKey: string;
+  /** The device's getAuthNonce() as a decimal string; consumed by the next successful authentication */
+  nonce: string;
+  /** Unix seconds; the contract rejects the signature once a block is past it */
+  expiresAt: number;
+}
+
+export interface ChallengeResponse {
+  challenge: AuthChallenge;
+  signature: string;
+}
+
+export interface ChallengeDomain {
+  chainId: number;
+  /** DeviceAuthFHE address */
+  verifyingContract: string;
+}
+
+/** KMS decryption proof accepted by DeviceAuthFHE.authenticateDevice */
+export interface DeviceAuthProof {
+  /** abi.encode of the decrypted device ID, as signed by the KMS */
+  abiEncodedDeviceId: string;
+  authProof: string;
+}
+
+/** EIP-712 struct DeviceAuthFHE.authenticateDevice recovers the device address from */
+export const CHALLENGE_TYPES = {
+  DeviceAuthentication: [
+    { name: 'deviceKey', type: 'bytes32' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiresAt', type: 'uint64' },
+  ],
+};
+
+function toTypedDataDomain(domain: ChallengeDomain): ethers.TypedDataDomain {
+  return { name: 'DeviceAuthFHE', version: '1', chainId: domain.chainId, verifyingContract: domain.verifyingContract };
+}
+
+function challengeId(deviceKey: string, nonce: string): string {
+  return `${deviceKey.toLowerCase()}:${nonce}`;
+}
+
+/**
+ * Device side: sign a challenge with the key registered as publicKey.
+ * The contract only accepts a publicKey registered as the device address (see toDevicePublicKey).
+ */
+export async function signChallenge(
+  signer: ethers.Signer,
+  challenge: AuthChallenge,
+  domain: ChallengeDomain
+): Promise<ChallengeResponse> {
+  const signature = await signer.signTypedData(toTypedDataDomain(domain), CHALLENGE_TYPES, challenge);
+  return { challenge, signature };
+}
+
+interface IssuedNonce {
+  deviceKey: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/** Issued challenges, keyed by device key and nonce */
+export interface NonceStore {
+  put(nonce: string, issued: IssuedNonce): Promise<void>;
+  /** Return a nonce without consuming it; null if it was never issued or already used */
+  peek(nonce: string): Promise<IssuedNonce | null>;
+  /** Remove and return a nonce; null if it was never issued or already used */
+  take(nonce: string): Promise<IssuedNonce | null>;
+  /** Drop nonces that expired before `now` */
+  prune(now: number): Promise<void>;
+}
+
+export class MemoryNonceStore implements NonceStore {
+  private nonces = new Map<string, IssuedNonce>();
+
+  async put(nonce: string, issued: IssuedNonce) {
+    this.nonces.set(nonce.toLowerCase(), issued);
+  }
+
+  async peek(nonce: string) {
+    return this.nonces.get(nonce.toLowerCase()) ?? null;
+  }
+
+  async take(nonce: string) {
+    const key = nonce.toLowerCase();
+    const issued = this.nonces.get(key) ?? null;
+    this.nonces.delete(key);
+    return issued;
+  }
+
+  async prune(now: number) {
+    for (const [nonce, issued] of this.nonces) {
+      if (issued.expiresAt < now) this.nonces.delete(nonce);
+    }
+  }
+}
+
+export interface ChallengeAuthenticatorOptions {
+  /** Validity of an issued challenge. Defaults to 60 s */
+  ttlSeconds?: number;
+  /** Defaults to MemoryNonceStore */
+  store?: NonceStore;
+}
+
+export class DeviceChallengeAuthenticator {
+  private deviceAuth: DeviceAuthClient;
+  private domain: ChallengeDomain;
+  private ttlSeconds: number;
+  private store: NonceStore;
+
+  constructor(deviceAuth: DeviceAuthClient, chainId: number, options: ChallengeAuthenticatorOptions = {}) {
+    this.deviceAuth = deviceAuth;
+    this.domain = { chainId, verifyingContract: deviceAuth.address };
+    this.ttlSeconds = options.ttlSeconds ?? 60;
+    this.store = options.store ?? new MemoryNonceStore();
+  }
+
+  get challengeDomain(): ChallengeDomain {
+    return this.domain;
+  }
+
+  /**
+   * Issue the device's current on-chain nonce for a provisioned or active device
+   */
+  async issueChallenge(deviceKey: string, now = Math.floor(Date.now() / 1000)): Promise<AuthChallenge> {
+    await this.requireAuthenticatableDevice(deviceKey);
+    await this.store.prune(now);
+
+    const challenge: AuthChallenge = {
+      deviceKey,
+      nonce: (await this.deviceAuth.getAuthNonce(deviceKey)).toString(),
+      expiresAt: now + this.ttlSeconds,
+    };
+    await this.store.put(challengeId(deviceKey, challenge.nonce), { deviceKey, issuedAt: now, expiresAt: challenge.expiresAt });
+    return challenge;
+  }
+
+  /**
+   * Check a device's response before paying for the transaction; the contract repeats the signature check.
+   * The challenge is consumed only once the signature recovers to the device's registered address,
+   * so a forged or mangled response cannot burn a legitimate challenge.
+   */
+  async verifyResponse(response: ChallengeResponse, now = Math.floor(Date.now() / 1000)): Promise<DeviceInfo> {
+    const { challenge, signature } = response;
+    if (!/^\d+$/.test(challenge?.nonce ?? '')) throw new ChallengeRejectedError('Malformed challenge nonce');
+    if (!ethers.isHexString(challenge.deviceKey, 32)) throw new ChallengeRejectedError('Malformed challenge device key');
+
+    const id = challengeId(challenge.deviceKey, challenge.nonce);
+    const issued = await this.store.peek(id);
+    if (!issued) throw new ChallengeRejectedError('Unknown or already used challenge nonce');
+    if (issued.expiresAt !== challenge.expiresAt) {
+      throw new ChallengeRejectedError('Challenge does not match the issued nonce');
+    }
+    if (now > issued.expiresAt) throw new ChallengeRejectedError('Challenge expired');
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyTypedData(toTypedDataDomain(this.domain), CHALLENGE_TYPES, challenge, signature);
+    } catch {
+      throw new ChallengeRejectedError('Malformed challenge signature');
+    }
+
+    const device = await this.requireAuthenticatableDevice(challenge.deviceKey);
+    if (BigInt(recovered) !== device.publicKey) {
+      throw new ChallengeRejectedError(`Challenge was not signed by the registered address of device ${challenge.deviceKey}`);
+    }
+    if ((await this.deviceAuth.getAuthNonce(challenge.deviceKey)).toString() !== challenge.nonce) {
+      throw new ChallengeRejectedError('Challenge nonce was already used on-chain');
+    }
+
+    // A concurrent verification of the same response may have consumed it in the meantime
+    if (!(await this.store.take(id))) {
+      throw new ChallengeRejectedError('Unknown or already used challenge nonce');
+    }
+    return device;
+  }
+
+  /**
+   * Verify the response, then submit the on-chain authentication with the device signature and the KMS proof
+   */
+  async authenticate(response: ChallengeResponse, proof: DeviceAuthProof): Promise<AuthenticateDeviceResult> {
+    await this.verifyResponse(response);
+    return this.deviceAuth.authenticateDevice(
+      response.challenge.deviceKey,
+      proof.abiEncodedDeviceId,
+      proof.authProof,
+      response.challenge.expiresAt,
+      response.signature
+    );
+  }
+
+  private async requireAuthenticatableDevice(deviceKey: string): Promise<DeviceInfo> {
+    let device: DeviceInfo;
+    try {
+      device = await this.deviceAuth.getDevice(deviceKey);
+    } catch (error) {
+      if (error instanceof DeviceNotFoundError) throw new ChallengeRejectedError(`Device ${deviceKey} is not registered`);
+      throw error;
+    }
+    if (!canAuthenticate(device.state)) throw new ChallengeRejectedError(`Device ${deviceKey} is ${device.state}`);
+    return device;
+  }
+}
+
+/**
+ * KMS proof for authenticateDevice: public decryption of the device's encrypted ID
+ */
+export async function fetchDeviceAuthProof(
+  deviceAuth: DeviceAuthClient,
+  deviceKey: string,
+  client?: FhevmClient
+): Promise<DeviceAuthProof> {
+  const handle = await deviceAuth.getEncryptedId(deviceKey);
+  const result = client ? await client.publicDecrypt([handle], ['euint32']) : await publicDecryptV09([handle], ['euint32']);
+  return {
+    abiEncodedDeviceId: result.abiEncodedClearValues,
+    authProof: result.decryptionProof,
+  };
+}
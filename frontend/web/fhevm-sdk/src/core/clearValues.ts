@@ -0,0 +1,58 @@
+/**
+ * Clear Values - Universal SDK
+ * Typed decrypted values and their ABI encoding, as verified on-chain by FHE.checkSignatures
+ */
+
+import { ethers } from 'ethers';
+import type { DecryptedValue } from './client.js';
+import { FheInputType, FheUintType, checkUintRange } from './encryptedInput.js';
+import { FhevmEncodingError } from './errors.js';
+
+/** Solidity type a contract decodes each FHE type's cleartext as */
+export const FHE_CLEARTEXT_ABI_TYPES = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  euint256: 'uint256',
+  eaddress: 'address',
+} as const satisfies Record<FheInputType, string>;
+
+/**
+ * Validate a relayer clear value against its declared type: boolean for ebool,
+ * checksummed address for eaddress, range-checked bigint otherwise
+ */
+export function toClearValue(type: FheInputType, raw: unknown, handle?: string): DecryptedValue {
+  const where = handle ? ` for handle ${handle}` : '';
+  try {
+    if (type === 'ebool') {
+      if (typeof raw === 'boolean') return raw;
+      const word = BigInt(raw as bigint | number | string);
+      if (word !== 0n && word !== 1n) throw new RangeError(`ebool value must be 0 or 1, got ${word}`);
+      return word === 1n;
+    }
+    if (type === 'eaddress') {
+      const address = typeof raw === 'string' && ethers.isAddress(raw) ? raw : ethers.toBeHex(BigInt(raw as bigint | string), 20);
+      return ethers.getAddress(address);
+    }
+    if (typeof raw === 'boolean') throw new TypeError(`${type} value must be an integer, got a boolean`);
+    return checkUintRange(type as FheUintType, BigInt(raw as bigint | number | string));
+  } catch (error: any) {
+    throw new FhevmEncodingError(`Invalid ${type} clear value${where}: ${error.message}`, { cause: error });
+  }
+}
+
+/**
+ * ABI-encode clear values with the Solidity type of each declared FHE type
+ */
+export function encodeClearValues(types: readonly FheInputType[], values: readonly DecryptedValue[]): string {
+  if (types.length !== values.length) {
+    throw new FhevmEncodingError(`Expected ${types.length} clear values, got ${values.length}`);
+  }
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    types.map((type) => FHE_CLEARTEXT_ABI_TYPES[type]),
+    types.map((type, i) => toClearValue(type, values[i]))
+  );
+}
@@ -0,0 +1,358 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Self-contained relayer instance with its own network profile and signer,
+ * so several chains/contracts can be served side by side
+ */
+
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { ethers } from "ethers";
+import {
+  FhevmNetworkName,
+  FhevmNetworkProfile,
+  assertChainMatches,
+  resolveNetworkProfile,
+  toRelayerConfig,
+} from "./networks.js";
+import { createEip1193Provider } from "./eip1193.js";
+import { DecryptionSessionManager, DecryptionSessionOptions } from "./decryptionSession.js";
+import { encodeClearValues, toClearValue } from "./clearValues.js";
+import { EncryptedInputBuilder, EncryptedInputResult, FheInputType } from "./encryptedInput.js";
+import { FhevmEncodingError, FhevmError, NotInitializedError, toFhevmError } from "./errors.js";
+import { parseHandle } from "./handles.js";
+import { DEFAULT_LOGGER, FhevmLogger } from "./logger.js";
+import { MockRelayer } from "./mockRelayer.js";
+import { getSharedProviderPool } from "./providerPool.js";
+
+export interface FhevmClientOptions {
+  rpcUrl?: string;
+  /** Endpoints for the Node.js provider pool (failover + health scoring). Defaults to [rpcUrl ?? profile.rpcUrl] */
+  rpcUrls?: string[];
+  /** Built-in profile name or a full custom profile. Defaults to 'sepolia' */
+  network?: FhevmNetworkName | FhevmNetworkProfile;
+  /** Default signer for user decryption; in Node.js it also backs the EIP-1193 bridge */
+  signer?: ethers.Signer;
+  /** JSON-RPC provider for the Node.js path. Defaults to the signer's provider, then the shared pool of rpcUrls */
+  provider?: ethers.JsonRpcApiProvider;
+  /** Caching of user-decryption keypairs/signatures */
+  decryptionSession?: DecryptionSessionOptions;
+  /** Use an in-memory MockRelayer instead of the Zama relayer (no wallet, RPC or network access). `true` creates one for the selected network */
+  mockRelayer?: MockRelayer | boolean;
+  /** Receives initialization progress and failures. Defaults to warnings and errors on the console, info dropped */
+  logger?: FhevmLogger;
+}
+
+export type { FhevmLogger } from "./logger.js";
+
+/** Zama relayer SDK instance, or the offline MockRelayer standing in for it */
+export type RelayerInstance = FhevmInstance | MockRelayer;
+
+/** Clear value returned by the relayer for a single handle */
+export type DecryptedValue = bigint | boolean | string;
+
+export interface EncryptedInput {
+  /** bytes32 handle for the externalEuint32 parameter */
+  encryptedData: string;
+  /** bytes inputProof */
+  proof: string;
+}
+
+export interface PublicDecryptResult {
+  /** bigint for euintXX, boolean for ebool, checksummed address for eaddress */
+  clearValues: { [handle: string]: DecryptedValue };
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+/**
+ * Initialize FHEVM instance for browser environment
+ */
+async function initializeBrowserFheInstance(profile: FhevmNetworkProfile, logger: FhevmLogger) {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+  }
+
+  // Check for both uppercase and lowercase versions of RelayerSDK
+  const sdk = window.RelayerSDK || window.relayerSDK;
+
+  if (!sdk) {
+    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  }
+
+  const { initSDK, createInstance } = sdk;
+
+  // Try to initialize SDK with CDN first (default behavior)
+  // If it fails (e.g., CORS error), fallback to local WASM files
+  try {
+    await initSDK(); // Try CDN first
+    logger.info('FHEVM SDK initialized with CDN');
+  } catch (cdnError) {
+    // If CDN fails (usually CORS), fallback to local WASM files
+    logger.warn('CDN initialization failed, falling back to local WASM files from the public folder:', cdnError);
+    await initSDK({
+      tfheParams: '/tfhe_bg.wasm',
+      kmsParams: '/kms_lib_bg.wasm'
+    });
+    logger.info('FHEVM SDK initialized with local WASM files');
+  }
+
+  const walletChainId = await window.ethereum.request({ method: 'eth_chainId' });
+  assertChainMatches(walletChainId, profile);
+
+  const config = toRelayerConfig(profile, window.ethereum);
+
+  try {
+    return await createInstance(config);
+  } catch (err) {
+    logger.error('FHEVM browser instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Initialize FHEVM instance for Node.js environment
+ * REAL FUNCTIONALITY - uses actual RelayerSDK
+ */
+async function initializeNodeFheInstance(profile: FhevmNetworkProfile, options: FhevmClientOptions, logger: FhevmLogger) {
+  try {
+    logger.info('Initializing FHEVM Node.js instance');
+
+    // Use eval to prevent webpack from analyzing these imports
+    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+    const { createInstance } = relayerSDKModule;
+
+    const provider = await resolveNodeProvider(profile, options);
+    const { chainId } = await provider.getNetwork();
+    assertChainMatches(chainId, profile);
+
+    // Signer-backed EIP-1193 bridge (read-only when no signer is given)
+    const eip1193Provider = createEip1193Provider(provider, options.signer);
+
+    const config = toRelayerConfig(profile, eip1193Provider);
+
+    const instance = await createInstance(config);
+    logger.info('FHEVM Node.js instance created');
+    return instance;
+  } catch (err) {
+    logger.error('FHEVM Node.js instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Relayer clear values re-keyed by normalized (lower-case) handle, whatever casing the relayer used
+ */
+function clearValuesByHandle(values: Record<string, unknown> | undefined): Map<string, unknown> {
+  return new Map(Object.entries(values ?? {}).map(([handle, value]) => [handle.toLowerCase(), value]));
+}
+
+/**
+ * Provider used by the Node.js path: options.provider, the signer's provider, or the shared pool of rpcUrls
+ */
+export async function resolveNodeProvider(profile: FhevmNetworkProfile, options: FhevmClientOptions): Promise<ethers.JsonRpcApiProvider> {
+  if (options.provider) return options.provider;
+  if (options.signer?.provider instanceof ethers.JsonRpcApiProvider) return options.signer.provider;
+  const urls = options.rpcUrls?.length ? options.rpcUrls : [options.rpcUrl || profile.rpcUrl];
+  return getSharedProviderPool({ urls, chainId: profile.chainId, logger: options.logger }).getProvider();
+}
+
+export class FhevmClient {
+  private instance: RelayerInstance | null = null;
+  private signer?: ethers.Signer;
+  private options: FhevmClientOptions;
+  private sessions: DecryptionSessionManager;
+  private logger: FhevmLogger;
+  readonly profile: FhevmNetworkProfile;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.profile = resolveNetworkProfile(options.network);
+    this.options = options;
+    this.logger = options.logger ?? DEFAULT_LOGGER;
+    this.signer = options.signer;
+    this.sessions = new DecryptionSessionManager(options.decryptionSession);
+  }
+
+  /**
+   * Create the relayer instance - Environment-aware
+   */
+  async initialize() {
+    if (this.options.mockRelayer) {
+      this.instance = this.options.mockRelayer instanceof MockRelayer
+        ? this.options.mockRelayer
+        : new MockRelayer({ network: this.profile });
+      this.logger.info('Using in-memory mock relayer');
+    } else if (typeof window !== 'undefined' && window.ethereum) {
+      this.instance = await initializeBrowserFheInstance(this.profile, this.logger);
+    } else {
+      this.instance = await initializeNodeFheInstance(this.profile, { ...this.options, signer: this.signer }, this.logger);
+    }
+    return this.instance;
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  getSigner(): ethers.Signer | undefined {
+    return this.signer;
+  }
+
+  setSigner(signer: ethers.Signer | undefined) {
+    this.signer = signer;
+  }
+
+  /**
+   * Start a typed encrypted input, e.g. createInput(c, u).u8(1).u64(2n).bool(true).encrypt()
+   */
+  createInput(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress);
+  }
+
+  /**
+   * Encrypt a 32-bit value for a contract call
+   */
+  async encrypt(contractAddress: string, userAddress: string, value: number): Promise<EncryptedInput> {
+    const { handles, inputProof } = await this.createInput(contractAddress, userAddress).u32(value).encrypt();
+    return {
+      encryptedData: handles[0],
+      proof: inputProof
+    };
+  }
+
+  /**
+   * Encrypt a list of 8-bit digits in a single input
+   */
+  async encryptDigits(contractAddress: string, userAddress: string, plainDigits: number[]): Promise<EncryptedInputResult> {
+    const input = this.createInput(contractAddress, userAddress);
+    for (const d of plainDigits) {
+      input.u8(d);
+    }
+
+    const { handles, inputProof } = await input.encrypt();
+    return { handles: [...handles], inputProof };
+  }
+
+  /**
+   * Decrypt handles using EIP-712 user decryption.
+   * Each value is typed by its handle: bigint for euintXX, boolean for ebool, checksummed address for eaddress.
+   */
+  async userDecrypt(
+    handles: string[],
+    contractAddress: string,
+    signer: ethers.Signer | undefined = this.signer
+  ): Promise<Record<string, DecryptedValue>> {
+    const fhe = this.requireInstance();
+    if (!signer) throw new Error('A signer is required for user decryption.');
+
+    try {
+      const parsed = handles.map((handle) => parseHandle(handle, this.profile.chainId));
+
+      const handleContractPairs = handles.map(handle => ({
+        handle,
+        contractAddress: contractAddress,
+      }));
+
+      // Reuses the cached keypair + signature; only prompts when the session is missing or lapsed
+      const session = await this.sessions.getSession(fhe, signer, this.profile.chainId, [contractAddress]);
+
+      // Validated per handle below, whichever relayer produced it
+      const result: Record<string, unknown> = await fhe.userDecrypt(
+        handleContractPairs,
+        session.privateKey,
+        session.publicKey,
+        session.signature,
+        session.contractAddresses,
+        session.userAddress,
+        session.startTimestamp.toString(),
+        session.durationDays.toString()
+      );
+
+      const relayerValues = clearValuesByHandle(result);
+      const clearValues: Record<string, DecryptedValue> = {};
+      handles.forEach((handle, i) => {
+        const raw = relayerValues.get(parsed[i].handle);
+        if (raw === undefined) throw new FhevmEncodingError(`Relayer returned no clear value for handle ${handle}`);
+        clearValues[handle] = toClearValue(parsed[i].type, raw, handle);
+      });
+      return clearValues;
+    } catch (error) {
+      // Relayer outages, ACL denials and rejected signatures become typed errors
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Forget the cached decryption session so the next decrypt asks for a new signature
+   */
+  async clearDecryptionSession(signer: ethers.Signer | undefined = this.signer) {
+    if (!signer) throw new Error('A signer is required to clear a decryption session.');
+    await this.sessions.clearSession(signer, this.profile.chainId);
+  }
+
+  /**
+   * Public decryption returning the KMS proof for on-chain verification (FHE v0.9).
+   * Clear values are typed by the FHE type each handle encodes, and abiEncodedClearValues uses the
+   * matching Solidity types. `types`, when given, must agree with the handles.
+   */
+  async publicDecrypt(handles: string[], types?: readonly FheInputType[]): Promise<PublicDecryptResult> {
+    const fhe = this.requireInstance();
+    if (types && types.length !== handles.length) {
+      throw new TypeError(`Expected one FHE type per handle: ${handles.length} handles, ${types.length} types`);
+    }
+    const parsed = handles.map((handle) => parseHandle(handle, this.profile.chainId));
+    const handleTypes = parsed.map(({ type }) => type);
+    handleTypes.forEach((type, i) => {
+      if (types && types[i] !== type) {
+        throw new TypeError(`Handle ${handles[i]} holds an ${type}, but ${types[i]} was declared`);
+      }
+    });
+    if (typeof fhe.publicDecrypt !== 'function') {
+      throw new FhevmError('This relayer instance does not support public decryption with KMS proofs (FHE v0.9)');
+    }
+
+    try {
+      const result = await fhe.publicDecrypt(handles);
+      if (!result?.clearValues || !ethers.isHexString(result.abiEncodedClearValues) || !ethers.isHexString(result.decryptionProof)) {
+        throw new FhevmEncodingError('Invalid publicDecrypt result structure: expected { clearValues, abiEncodedClearValues, decryptionProof }');
+      }
+      // Without a proof the cleartexts can never pass FHE.checkSignatures
+      if (ethers.dataLength(result.decryptionProof) === 0) {
+        throw new FhevmEncodingError('Relayer returned an empty decryptionProof');
+      }
+
+      const relayerValues = clearValuesByHandle(result.clearValues);
+      const clearValues: { [handle: string]: DecryptedValue } = {};
+      handles.forEach((handle, i) => {
+        const raw = relayerValues.get(parsed[i].handle);
+        if (raw === undefined) throw new FhevmEncodingError(`Relayer returned no clear value for handle ${handle}`);
+        clearValues[handle] = toClearValue(handleTypes[i], raw, handle);
+      });
+
+      // The KMS signed the relayer's encoding; a typed re-encoding must be byte-identical to verify on-chain
+      const abiEncodedClearValues = encodeClearValues(handleTypes, handles.map((handle) => clearValues[handle]));
+      if (abiEncodedClearValues.toLowerCase() !== result.abiEncodedClearValues.toLowerCase()) {
+        throw new FhevmEncodingError(`Clear values encoded as (${handleTypes.join(', ')}) do not match the cleartexts signed by the KMS`);
+      }
+      return { clearValues, abiEncodedClearValues, decryptionProof: result.decryptionProof };
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new NotInitializedError('FHE instance not initialized. Call initialize() first.');
+    return this.instance;
+  }
+}
+
+/**
+ * Create and initialize an independent FHEVM client
+ */
+export async function createFhevmClient(options: FhevmClientOptions = {}): Promise<FhevmClient> {
+  const client = new FhevmClient(options);
+  await client.initialize();
+  return client;
+}
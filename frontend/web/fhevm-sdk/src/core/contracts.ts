@@ -1,52 +1,292 @@
 /**
  * FHEVM Contract Interactions - Universal SDK
- * Simple contract wrapper using your working implementation
+ * ABI-driven contract wrapper: plaintexts passed for externalEuintXX slots are
+ * encrypted in a single input and spliced in next to their inputProof
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { createEncryptedInput, createInputBuilder } from './fhevm.js';
+import { FhevmClient } from './client.js';
+import { EncryptedInputBuilder, FheInputType } from './encryptedInput.js';
+import { toFhevmError } from './errors.js';
+
+/**
+ * Plaintext for an encrypted slot. Pass `{ type, value }` to override the type
+ * declared by the ABI or layout.
+ */
+export type EncryptedArgValue =
+  | boolean
+  | number
+  | bigint
+  | string
+  | { type: FheInputType; value: boolean | number | bigint | string };
+
+export interface EncryptedParamSlot {
+  /** Position in the full Solidity parameter list */
+  index: number;
+  name: string;
+  type: FheInputType;
+}
+
+export interface EncryptedFunctionLayout {
+  fragment: ethers.FunctionFragment;
+  handles: EncryptedParamSlot[];
+  /** Position of the `bytes` inputProof parameter */
+  proofIndex: number;
+}
+
+/**
+ * Encrypted parameters of one function by name, e.g. { handles: { encryptedId: 'euint32' }, proof: 'registrationProof' }
+ */
+export interface EncryptedLayoutSpec {
+  handles: Record<string, FheInputType>;
+  proof: string;
+}
+
+export interface FhevmContractOptions {
+  /**
+   * JSON ABI with `internalType` (e.g. a Hardhat artifact's `abi`). Without it a bytes32 parameter
+   * may be a handle or a plain ID/hash, so functions taking bytes32 and bytes need a `layouts` entry.
+   */
+  abi?: ethers.InterfaceAbi;
+  /**
+   * Explicit layouts by function name, taking precedence over the ABI; null marks a function
+   * whose bytes32 / bytes parameters are not an encrypted input
+   */
+  layouts?: Record<string, EncryptedLayoutSpec | null>;
+}
+
+const FHE_INPUT_TYPES: ReadonlySet<string> = new Set([
+  'ebool', 'euint8', 'euint16', 'euint32', 'euint64', 'euint128', 'euint256', 'eaddress',
+]);
+
+/**
+ * 'externalEuint64' -> 'euint64', or null for non-encrypted internal types
+ */
+function parseExternalType(internalType: string | undefined): FheInputType | null {
+  const match = internalType?.match(/^external(E\w+)$/);
+  if (!match) return null;
+  const type = match[1].charAt(0).toLowerCase() + match[1].slice(1);
+  return FHE_INPUT_TYPES.has(type) ? (type as FheInputType) : null;
+}
+
+function isTypedPlaintext(value: EncryptedArgValue): value is Extract<EncryptedArgValue, object> {
+  return typeof value === 'object' && value !== null && 'type' in value && 'value' in value;
+}
+
+/**
+ * JSON function fragments of an ABI; human-readable strings and Fragment objects carry no internalType
+ */
+function jsonFunctionFragments(abi: ethers.InterfaceAbi | undefined): ethers.JsonFragment[] {
+  if (!abi) return [];
+  const entries: ReadonlyArray<unknown> = typeof abi === 'string' ? JSON.parse(abi) : abi;
+  return entries.filter(
+    (entry): entry is ethers.JsonFragment =>
+      typeof entry === 'object' &&
+      entry !== null &&
+      !(entry instanceof ethers.Fragment) &&
+      (entry as ethers.JsonFragment).type === 'function'
+  );
+}
+
+function layoutFromSpec(fragment: ethers.FunctionFragment, spec: EncryptedLayoutSpec): EncryptedFunctionLayout {
+  const indexOf = (name: string) => {
+    const index = fragment.inputs.findIndex((param) => param.name === name);
+    if (index === -1) throw new Error(`${fragment.name} has no parameter named "${name}"`);
+    return index;
+  };
+
+  const proofIndex = indexOf(spec.proof);
+  if (fragment.inputs[proofIndex].type !== 'bytes') {
+    throw new Error(`${fragment.name}.${spec.proof} must be a bytes parameter to hold the input proof`);
+  }
+  const handles = Object.entries(spec.handles)
+    .map(([name, type]) => ({ index: indexOf(name), name, type }))
+    .sort((a, b) => a.index - b.index);
+  for (const slot of handles) {
+    if (fragment.inputs[slot.index].type !== 'bytes32') {
+      throw new Error(`${fragment.name}.${slot.name} must be a bytes32 parameter to hold an encrypted handle`);
+    }
+  }
+  return { fragment, handles, proofIndex };
+}
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private client?: FhevmClient;
+  private options: FhevmContractOptions;
+  private layouts = new Map<string, EncryptedFunctionLayout | null>();
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * @param client FHEVM client used for encryption; defaults to the one set up by initializeFheInstance()
+   */
+  constructor(contract: ethers.Contract, address: string, client?: FhevmClient, options: FhevmContractOptions = {}) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
+    this.options = options;
+  }
+
+  /**
+   * Encrypted parameters of a function, or null if it takes none.
+   * Throws when the function has bytes32 and bytes parameters the ABI does not explain.
+   */
+  getEncryptedLayout(functionName: string): EncryptedFunctionLayout | null {
+    if (this.layouts.has(functionName)) return this.layouts.get(functionName)!;
+
+    const fragment = this.contract.interface.getFunction(functionName);
+    if (!fragment) throw new Error(`Function "${functionName}" not found in contract ABI`);
+
+    const layout = this.resolveLayout(fragment);
+    this.layouts.set(functionName, layout);
+    return layout;
+  }
+
+  /**
+   * Build the full argument list for a function from plaintext arguments.
+   * `args` lists every parameter except the inputProof, with plaintexts in the encrypted slots.
+   */
+  async encryptArgs(functionName: string, args: unknown[], userAddress?: string): Promise<unknown[]> {
+    const layout = this.getEncryptedLayout(functionName);
+    if (!layout) return args;
+
+    const expected = layout.fragment.inputs.length - 1;
+    if (args.length !== expected) {
+      throw new TypeError(`${layout.fragment.name} expects ${expected} arguments (inputProof is added automatically), got ${args.length}`);
+    }
+
+    // Positions in `args` are shifted by one after the proof slot
+    const argIndex = (index: number) => (index > layout.proofIndex ? index - 1 : index);
+
+    let builder: EncryptedInputBuilder<any> = await this.createInputBuilder(userAddress);
+    for (const slot of layout.handles) {
+      const arg = args[argIndex(slot.index)] as EncryptedArgValue;
+      builder = isTypedPlaintext(arg) ? builder.add(arg.type, arg.value) : builder.add(slot.type, arg);
+    }
+    const { handles, inputProof } = await builder.encrypt();
+
+    const fullArgs = [...args];
+    fullArgs.splice(layout.proofIndex, 0, inputProof);
+    layout.handles.forEach((slot, i) => {
+      fullArgs[slot.index] = handles[i];
+    });
+    return fullArgs;
   }
 
   /**
-   * Encrypt and call contract function
+   * Encrypt the plaintexts in a function's encrypted slots and send the transaction, e.g.
+   * encryptAndCall('createBusinessData', id, name, 42, v1, v2, description)
    */
-  async encryptAndCall(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
-  ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+  async encryptAndCall(functionName: string, ...args: unknown[]): Promise<ethers.ContractTransactionResponse> {
+    return this.send(functionName, ...(await this.encryptArgs(functionName, args)));
   }
 
   /**
    * Encrypt and call with wait
    */
-  async encryptAndCallAndWait(
-    functionName: string,
-    encryptedParams: any,
-    ...additionalParams: any[]
-  ): Promise<ethers.TransactionReceipt> {
-    const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+  async encryptAndCallAndWait(functionName: string, ...args: unknown[]): Promise<ethers.TransactionReceipt> {
+    const tx = await this.encryptAndCall(functionName, ...args);
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
     if (!receipt) {
       throw new Error("Transaction receipt is null");
     }
     return receipt;
   }
 
+  /**
+   * Send a transaction; reverts are thrown as typed ContractRevertError subclasses
+   */
+  async send(functionName: string, ...args: unknown[]): Promise<ethers.ContractTransactionResponse> {
+    try {
+      return await this.contract[functionName](...args);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * Read-only call (eth_call) with the same revert decoding as send()
+   */
+  async call(functionName: string, ...args: unknown[]): Promise<any> {
+    try {
+      return await this.contract[functionName].staticCall(...args);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
+  async estimateGas(functionName: string, ...args: unknown[]): Promise<bigint> {
+    try {
+      return await this.contract[functionName].estimateGas(...args);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
   /**
    * Create encrypted input for contract
    */
   async createEncryptedInput(userAddress: string, value: number) {
+    if (this.client) return this.client.encrypt(this.address, userAddress, value);
     return createEncryptedInput(this.address, userAddress, value);
   }
-}
 
+  private resolveLayout(fragment: ethers.FunctionFragment): EncryptedFunctionLayout | null {
+    const spec = this.options.layouts?.[fragment.name];
+    if (spec !== undefined) return spec && layoutFromSpec(fragment, spec);
+
+    const abiEntry = jsonFunctionFragments(this.options.abi).find(
+      (entry) =>
+        entry.name === fragment.name &&
+        (entry.inputs ?? []).length === fragment.inputs.length &&
+        ethers.FunctionFragment.from(entry).selector === fragment.selector
+    );
+    const abiInputs = abiEntry?.inputs ?? [];
+
+    const handles: EncryptedParamSlot[] = [];
+    if (abiInputs.some((input) => input.internalType)) {
+      fragment.inputs.forEach((param, index) => {
+        const declared = parseExternalType(abiInputs[index].internalType);
+        if (declared) handles.push({ index, name: param.name, type: declared });
+      });
+      if (handles.length === 0) return null;
+
+      // The proof is the first bytes parameter after the last handle (e.g. registrationProof)
+      const last = handles[handles.length - 1].index;
+      const proofIndex = fragment.inputs.findIndex((param, index) => index > last && param.type === 'bytes');
+      if (proofIndex === -1) {
+        throw new Error(`${fragment.name} has encrypted parameters but no bytes input proof parameter`);
+      }
+      return { fragment, handles, proofIndex };
+    }
+
+    // No internalType: a bytes32 next to a bytes may be a handle or a plain ID/hash. Plaintexts must
+    // never reach a handle slot and plain values must never be encrypted, so only a layouts entry decides.
+    const types = fragment.inputs.map((param) => param.type);
+    if (types.includes('bytes32') && types.includes('bytes')) {
+      throw new Error(
+        `Cannot tell which parameters of ${fragment.name} are encrypted: pass an ABI with internalType or a layouts entry for it`
+      );
+    }
+    return null;
+  }
+
+  private async createInputBuilder(userAddress?: string): Promise<EncryptedInputBuilder> {
+    const user = userAddress ?? (await this.getRunnerAddress());
+    return this.client ? this.client.createInput(this.address, user) : createInputBuilder(this.address, user);
+  }
+
+  private async getRunnerAddress(): Promise<string> {
+    const signer = this.contract.runner as ethers.Signer | null;
+    if (!signer || typeof signer.getAddress !== 'function') {
+      throw new Error('FhevmContract needs a signer (or an explicit userAddress) to encrypt inputs');
+    }
+    return signer.getAddress();
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Decryption Sessions - Universal SDK
+ * Reuses one keypair + EIP-712 signature for user decryption until it expires,
+ * instead of asking the wallet to sign on every decrypt
+ */
+
+import { ethers } from 'ethers';
+import { openDB, IDBPDatabase } from 'idb';
+import type { RelayerInstance } from './client.js';
+
+export interface DecryptionSession {
+  userAddress: string;
+  chainId: number;
+  publicKey: string;
+  privateKey: string;
+  /** EIP-712 UserDecryptRequestVerification signature, without 0x prefix */
+  signature: string;
+  contractAddresses: string[];
+  /** Unix seconds */
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface DecryptionSessionStore {
+  get(key: string): Promise<DecryptionSession | null>;
+  set(key: string, session: DecryptionSession): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface DecryptionSessionOptions {
+  /** Contracts every session is signed for, in addition to the ones requested at decrypt time */
+  contractAddresses?: string[];
+  /** Validity of a signed session. Defaults to 10 days */
+  durationDays?: number;
+  /** Re-sign this many seconds before expiry. Defaults to 60 */
+  renewBeforeSeconds?: number;
+  /** Defaults to IndexedDB in the browser and memory elsewhere; pass a FileSessionStore to reuse sessions across Node.js runs */
+  store?: DecryptionSessionStore;
+}
+
+const DEFAULT_DURATION_DAYS = 10;
+const DEFAULT_RENEW_BEFORE_SECONDS = 60;
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * In-memory store (lost on reload / process exit)
+ */
+export class MemorySessionStore implements DecryptionSessionStore {
+  private sessions = new Map<string, DecryptionSession>();
+
+  async get(key: string) {
+    return this.sessions.get(key) ?? null;
+  }
+
+  async set(key: string, session: DecryptionSession) {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string) {
+    this.sessions.delete(key);
+  }
+}
+
+/**
+ * Browser store backed by IndexedDB
+ */
+export class IndexedDbSessionStore implements DecryptionSessionStore {
+  private db: Promise<IDBPDatabase>;
+  private storeName: string;
+
+  constructor(dbName = 'fhevm-sdk', storeName = 'decryption-sessions') {
+    this.storeName = storeName;
+    this.db = openDB(dbName, 1, {
+      upgrade(db) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName);
+        }
+      },
+    });
+  }
+
+  async get(key: string) {
+    return ((await (await this.db).get(this.storeName, key)) as DecryptionSession | undefined) ?? null;
+  }
+
+  async set(key: string, session: DecryptionSession) {
+    await (await this.db).put(this.storeName, session, key);
+  }
+
+  async delete(key: string) {
+    await (await this.db).delete(this.storeName, key);
+  }
+}
+
+/**
+ * Node.js store persisting all sessions to a single JSON file,
+ * ~/.fhevm/decryption-sessions.json unless a path is given
+ */
+export class FileSessionStore implements DecryptionSessionStore {
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string) {
+    const sessions = await this.readAll();
+    return sessions[key] ?? null;
+  }
+
+  async set(key: string, session: DecryptionSession) {
+    const sessions = await this.readAll();
+    sessions[key] = session;
+    await this.writeAll(sessions);
+  }
+
+  async delete(key: string) {
+    const sessions = await this.readAll();
+    delete sessions[key];
+    await this.writeAll(sessions);
+  }
+
+  private async readAll(): Promise<Record<string, DecryptionSession>> {
+    // Use eval to prevent bundlers from analyzing Node-only imports
+    const fs = await eval('import("fs/promises")');
+    try {
+      return JSON.parse(await fs.readFile(await this.resolvePath(), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  private async writeAll(sessions: Record<string, DecryptionSession>) {
+    const fs = await eval('import("fs/promises")');
+    const path = await eval('import("path")');
+    const filePath = await this.resolvePath();
+    // Sessions hold a decryption private key: keep the file owner-readable only
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    // Write a sibling temp file and rename it over the target, so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.${Math.random().toString(36).slice(2)}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async resolvePath(): Promise<string> {
+    if (!this.filePath) {
+      const os = await eval('import("os")');
+      const path = await eval('import("path")');
+      this.filePath = path.join(os.homedir(), '.fhevm', 'decryption-sessions.json') as string;
+    }
+    return this.filePath;
+  }
+}
+
+function defaultSessionStore(): DecryptionSessionStore {
+  if (typeof indexedDB !== 'undefined') return new IndexedDbSessionStore();
+  // Sessions hold a decryption private key: Node.js only persists them to disk when asked to
+  return new MemorySessionStore();
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+  return [...new Set(addresses.map((a) => ethers.getAddress(a)))].sort();
+}
+
+export function isSessionExpired(session: DecryptionSession, renewBeforeSeconds = 0, now = Date.now()): boolean {
+  const expiresAt = session.startTimestamp + session.durationDays * SECONDS_PER_DAY;
+  return Math.floor(now / 1000) >= expiresAt - renewBeforeSeconds;
+}
+
+export class DecryptionSessionManager {
+  private store: DecryptionSessionStore;
+  private contractAddresses: string[];
+  private durationDays: number;
+  private renewBeforeSeconds: number;
+  private pending = new Map<string, Promise<DecryptionSession>>();
+
+  constructor(options: DecryptionSessionOptions = {}) {
+    this.store = options.store ?? defaultSessionStore();
+    this.contractAddresses = normalizeAddresses(options.contractAddresses ?? []);
+    this.durationDays = options.durationDays ?? DEFAULT_DURATION_DAYS;
+    this.renewBeforeSeconds = options.renewBeforeSeconds ?? DEFAULT_RENEW_BEFORE_SECONDS;
+  }
+
+  /**
+   * Return a valid session covering the given contracts, signing a new one only when
+   * none is stored, it has (nearly) expired, or it does not cover every contract
+   */
+  async getSession(
+    instance: RelayerInstance,
+    signer: ethers.Signer,
+    chainId: number,
+    contractAddresses: string[]
+  ): Promise<DecryptionSession> {
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    const key = sessionKey(chainId, userAddress);
+    const required = normalizeAddresses([...this.contractAddresses, ...contractAddresses]);
+
+    const stored = await this.store.get(key);
+    if (stored && !isSessionExpired(stored, this.renewBeforeSeconds) && required.every((a) => stored.contractAddresses.includes(a))) {
+      return stored;
+    }
+
+    // Concurrent decrypts share one signature request
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      const session = await inFlight;
+      if (required.every((a) => session.contractAddresses.includes(a))) return session;
+    }
+
+    // Keep contracts of a still-valid session so widening it does not drop earlier ones
+    const covered = stored && !isSessionExpired(stored, this.renewBeforeSeconds)
+      ? normalizeAddresses([...stored.contractAddresses, ...required])
+      : required;
+
+    const signing = this.sign(instance, signer, userAddress, chainId, covered);
+    this.pending.set(key, signing);
+    try {
+      const session = await signing;
+      await this.store.set(key, session);
+      return session;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  async clearSession(signer: ethers.Signer, chainId: number) {
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    await this.store.delete(sessionKey(chainId, userAddress));
+  }
+
+  private async sign(
+    instance: RelayerInstance,
+    signer: ethers.Signer,
+    userAddress: string,
+    chainId: number,
+    contractAddresses: string[]
+  ): Promise<DecryptionSession> {
+    const keypair = instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = instance.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    const signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    return {
+      userAddress,
+      chainId,
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace("0x", ""),
+      contractAddresses,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+  }
+}
+
+function sessionKey(chainId: number, userAddress: string): string {
+  return `${chainId}:${userAddress.toLowerCase()}`;
+}
@@ -0,0 +1,480 @@
+/**
+ * DeviceAuthFHE Client - Universal SDK
+ * Typed wrapper around the DeviceAuthFHE contract
+ */
+
+import { ethers } from 'ethers';
+import { createEncryptedInput } from './fhevm.js';
+import { FhevmClient } from './client.js';
+import { InvalidKmsSignaturesError, InvalidStateTransitionError, toFhevmError } from './errors.js';
+import {
+  DeviceState,
+  DeviceStateReason,
+  assertTransition,
+  deviceStateFromCode,
+  deviceStateReasonCode,
+  deviceStateReasonFromCode,
+} from './deviceLifecycle.js';
+
+/**
+ * DeviceAuthFHE ABI (externalEuint32 is encoded as bytes32)
+ */
+export const DEVICE_AUTH_ABI = [
+  'function registerDevice(bytes32 encryptedId, bytes registrationProof, uint256 publicKey)',
+  'function authenticateDevice(bytes32 encryptedId, bytes abiEncodedDeviceId, bytes authProof, uint64 expiresAt, bytes deviceSignature)',
+  'function getAuthNonce(bytes32 encryptedId) view returns (uint256)',
+  'function getDevice(bytes32 encryptedId) view returns (uint256 publicKey, address owner, bool isActive, uint256 lastAuthTime, uint8 state, uint8 stateReason, uint256 stateChangedAt)',
+  'function getOwnerDevices() view returns (bytes32[])',
+  'function deactivateDevice(bytes32 encryptedId)',
+  'function activateDevice(bytes32 encryptedId)',
+  'function suspendDevice(bytes32 encryptedId, uint8 reason)',
+  'function reactivateDevice(bytes32 encryptedId)',
+  'function revokeDevice(bytes32 encryptedId, uint8 reason)',
+  'function decommissionDevice(bytes32 encryptedId, uint8 reason)',
+  'function verifyDeviceOwnership(bytes32 encryptedId, bytes ownershipProof) returns (bool)',
+  'function getEncryptedId(bytes32 encryptedId) view returns (bytes32)',
+  'function proposeTransfer(bytes32 encryptedId, address newOwner)',
+  'function cancelTransfer(bytes32 encryptedId)',
+  'function acceptTransfer(bytes32 encryptedId)',
+  'function getPendingOwner(bytes32 encryptedId) view returns (address)',
+  'event DeviceRegistered(bytes32 indexed encryptedId, address indexed owner)',
+  'event DeviceAuthenticated(bytes32 indexed encryptedId, uint256 authTime)',
+  'event DeviceTransferProposed(bytes32 indexed encryptedId, address indexed owner, address indexed newOwner)',
+  'event DeviceTransferCancelled(bytes32 indexed encryptedId, address indexed owner)',
+  'event DeviceTransferred(bytes32 indexed encryptedId, address indexed previousOwner, address indexed newOwner)',
+  'event DeviceStateChanged(bytes32 indexed encryptedId, uint8 from, uint8 to, uint8 reason, uint256 changedAt)',
+];
+
+export interface DeviceInfo {
+  /** Registry key: keccak256 of the external encrypted ID handle */
+  deviceKey: string;
+  publicKey: bigint;
+  owner: string;
+  /** In service, as before the lifecycle states existed: provisioned or active (canAuthenticate(state)) */
+  isActive: boolean;
+  lastAuthTime: bigint;
+  state: DeviceState;
+  /** Reason given for the latest transition */
+  stateReason: DeviceStateReason;
+  /** Unix seconds of the latest transition (registration for provisioned devices) */
+  stateChangedAt: bigint;
+}
+
+export interface DeviceRegisteredEvent {
+  type: 'DeviceRegistered';
+  deviceKey: string;
+  owner: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DeviceAuthenticatedEvent {
+  type: 'DeviceAuthenticated';
+  deviceKey: string;
+  authTime: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DeviceTransferProposedEvent {
+  type: 'DeviceTransferProposed';
+  deviceKey: string;
+  owner: string;
+  newOwner: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DeviceTransferCancelledEvent {
+  type: 'DeviceTransferCancelled';
+  deviceKey: string;
+  owner: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DeviceTransferredEvent {
+  type: 'DeviceTransferred';
+  deviceKey: string;
+  previousOwner: string;
+  newOwner: string;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DeviceStateChangedEvent {
+  type: 'DeviceStateChanged';
+  deviceKey: string;
+  from: DeviceState;
+  to: DeviceState;
+  reason: DeviceStateReason;
+  changedAt: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type DeviceAuthEvent =
+  | DeviceRegisteredEvent
+  | DeviceAuthenticatedEvent
+  | DeviceTransferProposedEvent
+  | DeviceTransferCancelledEvent
+  | DeviceTransferredEvent
+  | DeviceStateChangedEvent;
+
+export interface RegisterDeviceResult {
+  deviceKey: string;
+  event: DeviceRegisteredEvent;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface AuthenticateDeviceResult {
+  event: DeviceAuthenticatedEvent;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface ProposeTransferResult {
+  event: DeviceTransferProposedEvent;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface AcceptTransferResult {
+  event: DeviceTransferredEvent;
+  receipt: ethers.TransactionReceipt;
+}
+
+export interface DeviceStateChangeResult {
+  event: DeviceStateChangedEvent;
+  receipt: ethers.TransactionReceipt;
+}
+
+const deviceAuthInterface = new ethers.Interface(DEVICE_AUTH_ABI);
+
+/**
+ * Compute the registry key the contract derives from an external encrypted ID handle
+ */
+export function computeDeviceKey(encryptedIdHandle: string): string {
+  return ethers.keccak256(encryptedIdHandle);
+}
+
+/**
+ * Decode a DeviceAuthFHE log, or return null for unrelated logs
+ */
+export function decodeDeviceAuthLog(log: ethers.Log): DeviceAuthEvent | null {
+  let parsed: ethers.LogDescription | null;
+  try {
+    parsed = deviceAuthInterface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  if (parsed.name === 'DeviceRegistered') {
+    return {
+      type: 'DeviceRegistered',
+      deviceKey: parsed.args.encryptedId,
+      owner: parsed.args.owner,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  if (parsed.name === 'DeviceAuthenticated') {
+    return {
+      type: 'DeviceAuthenticated',
+      deviceKey: parsed.args.encryptedId,
+      authTime: parsed.args.authTime,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  if (parsed.name === 'DeviceTransferProposed') {
+    return {
+      type: 'DeviceTransferProposed',
+      deviceKey: parsed.args.encryptedId,
+      owner: parsed.args.owner,
+      newOwner: parsed.args.newOwner,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  if (parsed.name === 'DeviceTransferCancelled') {
+    return {
+      type: 'DeviceTransferCancelled',
+      deviceKey: parsed.args.encryptedId,
+      owner: parsed.args.owner,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  if (parsed.name === 'DeviceTransferred') {
+    return {
+      type: 'DeviceTransferred',
+      deviceKey: parsed.args.encryptedId,
+      previousOwner: parsed.args.previousOwner,
+      newOwner: parsed.args.newOwner,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  if (parsed.name === 'DeviceStateChanged') {
+    return {
+      type: 'DeviceStateChanged',
+      deviceKey: parsed.args.encryptedId,
+      from: deviceStateFromCode(parsed.args.from),
+      to: deviceStateFromCode(parsed.args.to),
+      reason: deviceStateReasonFromCode(parsed.args.reason),
+      changedAt: parsed.args.changedAt,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+    };
+  }
+  return null;
+}
+
+export class DeviceAuthClient {
+  private contract: ethers.Contract;
+  private runner: ethers.ContractRunner;
+  private client?: FhevmClient;
+  readonly address: string;
+
+  /**
+   * @param client FHEVM client used for encryption; defaults to the one set up by initializeFheInstance()
+   */
+  constructor(address: string, runner: ethers.ContractRunner, client?: FhevmClient) {
+    this.address = address;
+    this.runner = runner;
+    this.client = client;
+    this.contract = new ethers.Contract(address, DEVICE_AUTH_ABI, runner);
+  }
+
+  /**
+   * Encrypt a device ID and register it under the signer's address
+   */
+  async registerDevice(deviceId: number, publicKey: bigint): Promise<RegisterDeviceResult> {
+    const userAddress = await this.getSignerAddress();
+    const encrypted = this.client
+      ? await this.client.encrypt(this.address, userAddress, deviceId)
+      : await createEncryptedInput(this.address, userAddress, deviceId);
+
+    const tx = await this.invoke('registerDevice', encrypted.encryptedData, encrypted.proof, publicKey);
+    const receipt = await this.waitForReceipt(tx);
+
+    const event = this.findEvent(receipt, 'DeviceRegistered');
+    return { deviceKey: event.deviceKey, event, receipt };
+  }
+
+  /**
+   * Submit a KMS-signed proof of the device's encrypted ID (see fetchDeviceAuthProof) together with the
+   * device's signature over its current getAuthNonce() (see signChallenge). The contract consumes the nonce.
+   */
+  async authenticateDevice(
+    deviceKey: string,
+    abiEncodedDeviceId: string,
+    authProof: string,
+    expiresAt: number,
+    deviceSignature: string
+  ): Promise<AuthenticateDeviceResult> {
+    const tx = await this.invoke('authenticateDevice', deviceKey, abiEncodedDeviceId, authProof, expiresAt, deviceSignature);
+    const receipt = await this.waitForReceipt(tx);
+
+    const event = this.findEvent(receipt, 'DeviceAuthenticated');
+    return { event, receipt };
+  }
+
+  /**
+   * @deprecated Suspends the device; use suspendDevice() to record a reason
+   */
+  async deactivateDevice(deviceKey: string): Promise<ethers.TransactionReceipt> {
+    const tx = await this.invoke('deactivateDevice', deviceKey);
+    return this.waitForReceipt(tx);
+  }
+
+  /**
+   * Put a provisioned device into service without waiting for its first authentication
+   */
+  async activateDevice(deviceKey: string): Promise<DeviceStateChangeResult> {
+    return this.changeState(deviceKey, 'activateDevice', 'active', { from: 'provisioned' });
+  }
+
+  async suspendDevice(deviceKey: string, reason: DeviceStateReason = 'unspecified'): Promise<DeviceStateChangeResult> {
+    return this.changeState(deviceKey, 'suspendDevice', 'suspended', { reason });
+  }
+
+  async reactivateDevice(deviceKey: string): Promise<DeviceStateChangeResult> {
+    return this.changeState(deviceKey, 'reactivateDevice', 'active', { from: 'suspended' });
+  }
+
+  async revokeDevice(deviceKey: string, reason: DeviceStateReason = 'unspecified'): Promise<DeviceStateChangeResult> {
+    return this.changeState(deviceKey, 'revokeDevice', 'revoked', { reason });
+  }
+
+  async decommissionDevice(deviceKey: string, reason: DeviceStateReason = 'unspecified'): Promise<DeviceStateChangeResult> {
+    return this.changeState(deviceKey, 'decommissionDevice', 'decommissioned', { reason });
+  }
+
+  /**
+   * Step 1 of an ownership transfer: the current owner nominates the new owner.
+   * Revoked and decommissioned devices cannot change hands (DeviceInactiveError).
+   */
+  async proposeTransfer(deviceKey: string, newOwner: string): Promise<ProposeTransferResult> {
+    const tx = await this.invoke('proposeTransfer', deviceKey, newOwner);
+    const receipt = await this.waitForReceipt(tx);
+
+    const event = this.findEvent(receipt, 'DeviceTransferProposed');
+    return { event, receipt };
+  }
+
+  /**
+   * Step 2 of an ownership transfer: the nominated owner takes over the device and its ACL access
+   */
+  async acceptTransfer(deviceKey: string): Promise<AcceptTransferResult> {
+    const tx = await this.invoke('acceptTransfer', deviceKey);
+    const receipt = await this.waitForReceipt(tx);
+
+    const event = this.findEvent(receipt, 'DeviceTransferred');
+    return { event, receipt };
+  }
+
+  async cancelTransfer(deviceKey: string): Promise<ethers.TransactionReceipt> {
+    const tx = await this.invoke('cancelTransfer', deviceKey);
+    return this.waitForReceipt(tx);
+  }
+
+  /**
+   * Nonce the device must sign for its next authentication; incremented by every successful authenticateDevice()
+   */
+  async getAuthNonce(deviceKey: string): Promise<bigint> {
+    return this.invoke('getAuthNonce', deviceKey);
+  }
+
+  /**
+   * Nominated owner of a pending transfer, or null if none is pending
+   */
+  async getPendingOwner(deviceKey: string): Promise<string | null> {
+    const pendingOwner: string = await this.invoke('getPendingOwner', deviceKey);
+    return pendingOwner === ethers.ZeroAddress ? null : pendingOwner;
+  }
+
+  /**
+   * Check a KMS proof that the device's encrypted ID attests its current owner.
+   * The contract function is not view (FHE.checkSignatures emits an event), so this runs it as an eth_call.
+   * Returns false when the KMS signatures do not match.
+   */
+  async verifyDeviceOwnership(deviceKey: string, ownershipProof: string): Promise<boolean> {
+    try {
+      return await this.contract.verifyDeviceOwnership.staticCall(deviceKey, ownershipProof);
+    } catch (error) {
+      const fhevmError = toFhevmError(error, this.contract.interface);
+      if (fhevmError instanceof InvalidKmsSignaturesError) return false;
+      throw fhevmError;
+    }
+  }
+
+  async getDevice(deviceKey: string): Promise<DeviceInfo> {
+    const [publicKey, owner, isActive, lastAuthTime, state, stateReason, stateChangedAt] = await this.invoke('getDevice', deviceKey);
+    return {
+      deviceKey,
+      publicKey,
+      owner,
+      isActive,
+      lastAuthTime,
+      state: deviceStateFromCode(state),
+      stateReason: deviceStateReasonFromCode(stateReason),
+      stateChangedAt,
+    };
+  }
+
+  /**
+   * Device keys owned by the runner's address (the contract scopes by msg.sender)
+   */
+  async getOwnerDevices(): Promise<string[]> {
+    const keys: string[] = await this.invoke('getOwnerDevices');
+    return [...keys];
+  }
+
+  /**
+   * Stored encrypted ID handle of a device, usable for public decryption
+   */
+  async getEncryptedId(deviceKey: string): Promise<string> {
+    return this.invoke('getEncryptedId', deviceKey);
+  }
+
+  /**
+   * Decode every DeviceAuthFHE event emitted by this contract in a receipt
+   */
+  parseEvents(receipt: ethers.TransactionReceipt): DeviceAuthEvent[] {
+    const events: DeviceAuthEvent[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue;
+      const event = decodeDeviceAuthLog(log);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private findEvent<T extends DeviceAuthEvent['type']>(
+    receipt: ethers.TransactionReceipt,
+    type: T
+  ): Extract<DeviceAuthEvent, { type: T }> {
+    const event = this.parseEvents(receipt).find((e) => e.type === type);
+    if (!event) {
+      throw new Error(`${type} event not found in transaction ${receipt.hash}`);
+    }
+    return event as Extract<DeviceAuthEvent, { type: T }>;
+  }
+
+  /**
+   * Check the transition against the device's current state (InvalidStateTransitionError), then send it
+   */
+  private async changeState(
+    deviceKey: string,
+    method: string,
+    to: DeviceState,
+    options: { from?: DeviceState; reason?: DeviceStateReason } = {}
+  ): Promise<DeviceStateChangeResult> {
+    const { state } = await this.getDevice(deviceKey);
+    // activateDevice/reactivateDevice both lead to 'active', each from one source state only
+    if (options.from && state !== options.from) {
+      throw new InvalidStateTransitionError(`${method}() cannot move a ${state} device`, { reason: 'Invalid state transition' });
+    }
+    assertTransition(state, to);
+
+    const args = options.reason === undefined ? [deviceKey] : [deviceKey, deviceStateReasonCode(options.reason)];
+    const tx = await this.invoke(method, ...args);
+    const receipt = await this.waitForReceipt(tx);
+
+    const event = this.findEvent(receipt, 'DeviceStateChanged');
+    return { event, receipt };
+  }
+
+  /**
+   * Call a contract method, rethrowing reverts as typed errors (DeviceNotFoundError, NotDeviceOwnerError, ...)
+   */
+  private async invoke(method: string, ...args: any[]): Promise<any> {
+    try {
+      return await this.contract[method](...args);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+  }
+
+  private async waitForReceipt(tx: ethers.ContractTransactionResponse): Promise<ethers.TransactionReceipt> {
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
+  }
+
+  private async getSignerAddress(): Promise<string> {
+    const signer = this.runner as ethers.Signer;
+    if (typeof signer.getAddress !== 'function') {
+      throw new Error('DeviceAuthClient needs a signer to send transactions');
+    }
+    return signer.getAddress();
+  }
+}
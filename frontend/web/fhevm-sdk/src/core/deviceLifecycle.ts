@@ -0,0 +1,88 @@
+/**
+ * Device Lifecycle - Universal SDK
+ * Typed mirror of DeviceAuthFHE's lifecycle state machine, so callers can check a
+ * transition before sending it and render states and reasons by name
+ *
+ * provisioned -> active <-> suspended, any of those -> revoked -> decommissioned
+ */
+
+import { InvalidStateTransitionError } from './errors.js';
+
+/** In the order of the contract's DeviceState enum */
+export const DEVICE_STATES = ['provisioned', 'active', 'suspended', 'revoked', 'decommissioned'] as const;
+
+export type DeviceState = (typeof DEVICE_STATES)[number];
+
+/** Reason codes stored with each transition, in code order (0 = unspecified) */
+export const DEVICE_STATE_REASONS = [
+  'unspecified',
+  'ownerRequest',
+  'maintenance',
+  'lowBattery',
+  'lost',
+  'compromised',
+  'policyViolation',
+  'endOfLife',
+] as const;
+
+export type DeviceStateReason = (typeof DEVICE_STATE_REASONS)[number];
+
+export const DEVICE_STATE_TRANSITIONS: Record<DeviceState, readonly DeviceState[]> = {
+  provisioned: ['active', 'suspended', 'revoked'],
+  active: ['suspended', 'revoked'],
+  suspended: ['active', 'revoked'],
+  revoked: ['decommissioned'],
+  decommissioned: [],
+};
+
+export function deviceStateFromCode(code: bigint | number): DeviceState {
+  const state = DEVICE_STATES[Number(code)];
+  if (!state) throw new RangeError(`Unknown device state code ${code}`);
+  return state;
+}
+
+export function deviceStateCode(state: DeviceState): number {
+  const code = DEVICE_STATES.indexOf(state);
+  if (code < 0) throw new TypeError(`Unknown device state "${state}"`);
+  return code;
+}
+
+/**
+ * Reason codes outside DEVICE_STATE_REASONS (written by other clients) decode as 'unspecified'
+ */
+export function deviceStateReasonFromCode(code: bigint | number): DeviceStateReason {
+  return DEVICE_STATE_REASONS[Number(code)] ?? 'unspecified';
+}
+
+export function deviceStateReasonCode(reason: DeviceStateReason): number {
+  const code = DEVICE_STATE_REASONS.indexOf(reason);
+  if (code < 0) throw new TypeError(`Unknown device state reason "${reason}"`);
+  return code;
+}
+
+export function canTransition(from: DeviceState, to: DeviceState): boolean {
+  return DEVICE_STATE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throws the same error class the contract's revert maps to, before any transaction is sent
+ */
+export function assertTransition(from: DeviceState, to: DeviceState) {
+  if (!canTransition(from, to)) {
+    throw new InvalidStateTransitionError(`Device cannot move from ${from} to ${to}`, { reason: 'Invalid state transition' });
+  }
+}
+
+/**
+ * Whether authenticateDevice() accepts the device; the first authentication activates a provisioned device
+ */
+export function canAuthenticate(state: DeviceState): boolean {
+  return state === 'provisioned' || state === 'active';
+}
+
+/**
+ * Revoked and decommissioned devices can never return to service
+ */
+export function isRetired(state: DeviceState): boolean {
+  return state === 'revoked' || state === 'decommissioned';
+}
@@ -0,0 +1,88 @@
+/**
+ * Device Metadata - Universal SDK
+ * Packs device type, location and battery level into UniversalFHEAdapter's
+ * public fields and parses them back deterministically
+ *
+ * Layout:
+ * - publicValue1: battery level, 0-100
+ * - publicValue2: bits 0-7 layout version, bits 8-15 device type code (1-based index in DEVICE_TYPES)
+ * - description:  "<deviceType> device at <location>"
+ *
+ * Records written before the version byte existed (publicValue2 = 0) use the same
+ * publicValue1/description layout and parse identically.
+ */
+
+export const DEVICE_TYPES = ['sensor', 'actuator', 'gateway', 'controller'] as const;
+
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+export interface DeviceMetadata {
+  deviceType: DeviceType;
+  location: string;
+  /** Percent, 0-100 */
+  battery: number;
+}
+
+export interface PackedDeviceMetadata {
+  publicValue1: bigint;
+  publicValue2: bigint;
+  description: string;
+}
+
+export const DEVICE_METADATA_VERSION = 1;
+
+const DESCRIPTION_PATTERN = /^(\S+) device at (.+)$/;
+
+function isDeviceType(value: string): value is DeviceType {
+  return (DEVICE_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Encode metadata into createBusinessData's publicValue1 / publicValue2 / description
+ */
+export function packDeviceMetadata(metadata: DeviceMetadata): PackedDeviceMetadata {
+  if (!isDeviceType(metadata.deviceType)) {
+    throw new TypeError(`Unknown device type "${metadata.deviceType}". Expected one of: ${DEVICE_TYPES.join(', ')}`);
+  }
+  const location = metadata.location.trim();
+  if (!location || /[\r\n]/.test(location)) {
+    throw new TypeError(`Invalid device location "${metadata.location}"`);
+  }
+  if (!Number.isInteger(metadata.battery) || metadata.battery < 0 || metadata.battery > 100) {
+    throw new RangeError(`Battery level must be an integer between 0 and 100, got ${metadata.battery}`);
+  }
+
+  const typeCode = DEVICE_TYPES.indexOf(metadata.deviceType) + 1;
+  return {
+    publicValue1: BigInt(metadata.battery),
+    publicValue2: BigInt(DEVICE_METADATA_VERSION) | (BigInt(typeCode) << 8n),
+    description: `${metadata.deviceType} device at ${location}`,
+  };
+}
+
+/**
+ * Decode metadata from a record's public fields, or null if the record was not written by packDeviceMetadata()
+ */
+export function parseDeviceMetadata(fields: {
+  publicValue1: bigint | number;
+  publicValue2: bigint | number;
+  description: string;
+}): DeviceMetadata | null {
+  const publicValue1 = BigInt(fields.publicValue1);
+  const publicValue2 = BigInt(fields.publicValue2);
+  const match = fields.description.match(DESCRIPTION_PATTERN);
+  if (!match || publicValue1 < 0n || publicValue1 > 100n) return null;
+
+  const version = Number(publicValue2 & 0xffn);
+  let deviceType: string;
+  if (version === 0 && publicValue2 === 0n) {
+    deviceType = match[1];
+  } else if (version === DEVICE_METADATA_VERSION) {
+    deviceType = DEVICE_TYPES[Number((publicValue2 >> 8n) & 0xffn) - 1] ?? '';
+  } else {
+    return null;
+  }
+  if (!isDeviceType(deviceType)) return null;
+
+  return { deviceType, location: match[2], battery: Number(publicValue1) };
+}
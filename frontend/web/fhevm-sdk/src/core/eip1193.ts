@@ -0,0 +1,164 @@
+/**
+ * EIP-1193 Bridge - Universal SDK
+ * Exposes an ethers Signer + JSON-RPC provider as an EIP-1193 provider,
+ * so the relayer SDK can run headlessly in Node.js
+ */
+
+import { ethers } from 'ethers';
+
+export interface Eip1193RequestArguments {
+  method: string;
+  params?: any[];
+}
+
+export interface Eip1193Provider {
+  request(args: Eip1193RequestArguments): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+/** EIP-1193 provider error codes */
+export const PROVIDER_ERROR_CODES = {
+  userRejectedRequest: 4001,
+  unauthorized: 4100,
+  unsupportedMethod: 4200,
+} as const;
+
+/**
+ * Read-only JSON-RPC methods forwarded to the node as-is
+ */
+const PASSTHROUGH_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'net_version',
+  'web3_clientVersion',
+]);
+
+function providerError(code: number, message: string): Error & { code: number } {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Convert an eth_sendTransaction / eth_signTransaction payload (hex quantities) to an ethers request
+ */
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const request: ethers.TransactionRequest = {
+    to: tx.to ?? null,
+    data: tx.data ?? tx.input,
+  };
+  if (tx.value != null) request.value = BigInt(tx.value);
+  if (tx.gas != null) request.gasLimit = BigInt(tx.gas);
+  if (tx.gasLimit != null) request.gasLimit = BigInt(tx.gasLimit);
+  if (tx.gasPrice != null) request.gasPrice = BigInt(tx.gasPrice);
+  if (tx.maxFeePerGas != null) request.maxFeePerGas = BigInt(tx.maxFeePerGas);
+  if (tx.maxPriorityFeePerGas != null) request.maxPriorityFeePerGas = BigInt(tx.maxPriorityFeePerGas);
+  if (tx.nonce != null) request.nonce = Number(BigInt(tx.nonce));
+  if (tx.type != null) request.type = Number(BigInt(tx.type));
+  if (tx.chainId != null) request.chainId = BigInt(tx.chainId);
+  if (tx.accessList != null) request.accessList = tx.accessList;
+  return request;
+}
+
+/**
+ * Create an EIP-1193 provider backed by a JSON-RPC node and, optionally, a signer.
+ * Without a signer the provider is read-only: eth_accounts is empty and signing methods fail with 4100.
+ */
+export function createEip1193Provider(
+  provider: ethers.JsonRpcApiProvider,
+  signer?: ethers.Signer
+): Eip1193Provider {
+  const connectedSigner = signer && !signer.provider ? signer.connect(provider) : signer;
+  let chainIdHex: string | null = null;
+
+  const requireSigner = async (from?: string): Promise<ethers.Signer> => {
+    if (!connectedSigner) {
+      throw providerError(PROVIDER_ERROR_CODES.unauthorized, 'No signer configured for this provider');
+    }
+    if (from) {
+      const address = await connectedSigner.getAddress();
+      if (address.toLowerCase() !== from.toLowerCase()) {
+        throw providerError(PROVIDER_ERROR_CODES.unauthorized, `Signer ${address} cannot sign for ${from}`);
+      }
+    }
+    return connectedSigner;
+  };
+
+  const getAccounts = async (): Promise<string[]> => {
+    return connectedSigner ? [await connectedSigner.getAddress()] : [];
+  };
+
+  return {
+    request: async ({ method, params = [] }: Eip1193RequestArguments) => {
+      switch (method) {
+        case 'eth_chainId':
+          // The node is the source of truth; cache it since it never changes for one endpoint
+          if (!chainIdHex) chainIdHex = await provider.send('eth_chainId', []);
+          return chainIdHex;
+
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return getAccounts();
+
+        case 'eth_signTypedData_v4': {
+          const [from, typedData] = params;
+          const signer = await requireSigner(from);
+          const { domain, types, message } = typeof typedData === 'string' ? JSON.parse(typedData) : typedData;
+          // ethers derives the domain type itself and rejects an explicit EIP712Domain entry
+          const { EIP712Domain: _domainType, ...messageTypes } = types;
+          return signer.signTypedData(domain, messageTypes, message);
+        }
+
+        case 'personal_sign': {
+          const [message, from] = params;
+          const signer = await requireSigner(from);
+          return signer.signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+        }
+
+        case 'eth_sign': {
+          const [from, message] = params;
+          const signer = await requireSigner(from);
+          return signer.signMessage(ethers.getBytes(message));
+        }
+
+        case 'eth_signTransaction': {
+          const [tx] = params;
+          const signer = await requireSigner(tx?.from);
+          const populated = await signer.populateTransaction(toTransactionRequest(tx));
+          return signer.signTransaction(populated);
+        }
+
+        case 'eth_sendTransaction': {
+          const [tx] = params;
+          const signer = await requireSigner(tx?.from);
+          const response = await signer.sendTransaction(toTransactionRequest(tx));
+          return response.hash;
+        }
+
+        case 'eth_sendRawTransaction':
+          return provider.send(method, params);
+
+        default:
+          if (PASSTHROUGH_METHODS.has(method)) {
+            return provider.send(method, params);
+          }
+          throw providerError(PROVIDER_ERROR_CODES.unsupportedMethod, `Unsupported method: ${method}`);
+      }
+    },
+    // A single JSON-RPC endpoint never changes chain or accounts, so there is nothing to emit
+    on: () => {},
+    removeListener: () => {},
+  };
+}
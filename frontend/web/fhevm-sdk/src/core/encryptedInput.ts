@@ -0,0 +1,221 @@
+/**
+ * Typed Encrypted Inputs - Universal SDK
+ * Builder that packs values of mixed FHE widths into a single input proof
+ */
+
+import type { RelayerEncryptedInput } from '@zama-fhe/relayer-sdk/web';
+import { ethers } from 'ethers';
+import type { RelayerInstance } from './client.js';
+import { FhevmEncodingError } from './errors.js';
+import type { MockEncryptedInput } from './mockRelayer.js';
+
+export type FheInputType = 'ebool' | 'euint8' | 'euint16' | 'euint32' | 'euint64' | 'euint128' | 'euint256' | 'eaddress';
+
+export const FHE_UINT_BITS = {
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+} as const;
+
+export type FheUintType = keyof typeof FHE_UINT_BITS;
+
+export interface TypedEncryptedInput<T extends readonly FheInputType[]> {
+  /** One bytes32 handle per added value, in insertion order */
+  handles: { [K in keyof T]: string };
+  /** Declared type of each handle */
+  types: T;
+  /** Proof shared by all handles */
+  inputProof: string;
+}
+
+/**
+ * Encrypted input as passed to a contract: externalEuintXX handles + shared inputProof
+ */
+export interface EncryptedInputResult {
+  /** Hex-encoded bytes32 handles */
+  handles: string[];
+  /** Hex-encoded bytes proof */
+  inputProof: string;
+}
+
+type InputEntry =
+  | { type: 'ebool'; value: boolean }
+  | { type: FheUintType; value: bigint }
+  | { type: 'eaddress'; value: string };
+
+/** Relayer SDK method used for each unsigned integer type */
+const UINT_ADD_METHODS = {
+  euint8: 'add8',
+  euint16: 'add16',
+  euint32: 'add32',
+  euint64: 'add64',
+  euint128: 'add128',
+  euint256: 'add256',
+} as const satisfies Record<FheUintType, keyof RelayerEncryptedInput>;
+
+function addToRelayerInput(input: RelayerEncryptedInput | MockEncryptedInput, entry: InputEntry) {
+  if (entry.type === 'ebool') input.addBool(entry.value);
+  else if (entry.type === 'eaddress') input.addAddress(entry.value);
+  else input[UINT_ADD_METHODS[entry.type]](entry.value);
+}
+
+/**
+ * Validate a plaintext for its FHE type: boolean for ebool, address for eaddress, in-range integer otherwise
+ */
+function toInputEntry(type: FheInputType, value: unknown): InputEntry {
+  if (type === 'ebool') {
+    if (typeof value !== 'boolean') throw new TypeError(`ebool value must be a boolean, got ${typeof value}`);
+    return { type, value };
+  }
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) throw new TypeError(`eaddress value must be an address, got ${value}`);
+    return { type, value: ethers.getAddress(value) };
+  }
+  return { type, value: checkUintRange(type, value as number | bigint) };
+}
+
+function toHexBytes(value: unknown, what: string): string {
+  if (value instanceof Uint8Array) return ethers.hexlify(value);
+  if (typeof value === 'string' && ethers.isHexString(value)) return value.toLowerCase();
+  throw new FhevmEncodingError(`Relayer returned an invalid ${what}: expected Uint8Array or hex string, got ${describe(value)}`);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'object' ? `object with keys [${Object.keys(value as object).join(', ')}]` : typeof value;
+}
+
+/**
+ * Validate the relayer's encrypt() output and normalize it to hex strings
+ */
+export function normalizeEncryptedInputResult(raw: unknown, expectedHandles?: number): EncryptedInputResult {
+  if (!raw || typeof raw !== 'object' || !Array.isArray((raw as any).handles) || !('inputProof' in raw)) {
+    throw new FhevmEncodingError(`Unexpected encrypted input structure: expected { handles, inputProof }, got ${describe(raw)}`);
+  }
+  const { handles, inputProof } = raw as { handles: unknown[]; inputProof: unknown };
+
+  if (expectedHandles !== undefined && handles.length !== expectedHandles) {
+    throw new FhevmEncodingError(`Relayer returned ${handles.length} handles for ${expectedHandles} encrypted values`);
+  }
+
+  const hexHandles = handles.map((h, i) => {
+    const hex = toHexBytes(h, `handle #${i}`);
+    if (ethers.dataLength(hex) !== 32) {
+      throw new FhevmEncodingError(`Handle #${i} must be 32 bytes, got ${ethers.dataLength(hex)}`);
+    }
+    return hex;
+  });
+
+  const proof = toHexBytes(inputProof, 'inputProof');
+  if (ethers.dataLength(proof) === 0) {
+    throw new FhevmEncodingError('Relayer returned an empty inputProof');
+  }
+
+  return { handles: hexHandles, inputProof: proof };
+}
+
+/**
+ * Validate a plaintext against the range of an unsigned FHE integer type
+ */
+export function checkUintRange(type: FheUintType, value: number | bigint): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`${type} value must be a safe integer (use bigint for large values), got ${value}`);
+  }
+  const big = BigInt(value);
+  const max = (1n << BigInt(FHE_UINT_BITS[type])) - 1n;
+  if (big < 0n || big > max) {
+    throw new RangeError(`${type} value ${big} is out of range [0, ${max}]`);
+  }
+  return big;
+}
+
+export class EncryptedInputBuilder<T extends FheInputType[] = []> {
+  private instance: RelayerInstance;
+  private entries: InputEntry[] = [];
+  readonly contractAddress: string;
+  readonly userAddress: string;
+
+  constructor(instance: RelayerInstance, contractAddress: string, userAddress: string) {
+    if (!ethers.isAddress(contractAddress)) throw new TypeError(`Invalid contract address: ${contractAddress}`);
+    if (!ethers.isAddress(userAddress)) throw new TypeError(`Invalid user address: ${userAddress}`);
+    this.instance = instance;
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+  }
+
+  bool(value: boolean): EncryptedInputBuilder<[...T, 'ebool']> {
+    return this.push('ebool', value);
+  }
+
+  u8(value: number | bigint): EncryptedInputBuilder<[...T, 'euint8']> {
+    return this.push('euint8', value);
+  }
+
+  u16(value: number | bigint): EncryptedInputBuilder<[...T, 'euint16']> {
+    return this.push('euint16', value);
+  }
+
+  u32(value: number | bigint): EncryptedInputBuilder<[...T, 'euint32']> {
+    return this.push('euint32', value);
+  }
+
+  u64(value: number | bigint): EncryptedInputBuilder<[...T, 'euint64']> {
+    return this.push('euint64', value);
+  }
+
+  u128(value: number | bigint): EncryptedInputBuilder<[...T, 'euint128']> {
+    return this.push('euint128', value);
+  }
+
+  u256(value: number | bigint): EncryptedInputBuilder<[...T, 'euint256']> {
+    return this.push('euint256', value);
+  }
+
+  address(value: string): EncryptedInputBuilder<[...T, 'eaddress']> {
+    return this.push('eaddress', value);
+  }
+
+  /**
+   * Add a value by its declared type (useful when the type comes from an ABI)
+   */
+  add<U extends FheInputType>(type: U, value: boolean | number | bigint | string): EncryptedInputBuilder<[...T, U]> {
+    return this.push(type, value);
+  }
+
+  get types(): T {
+    return this.entries.map((e) => e.type) as T;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Encrypt every added value in one relayer call
+   */
+  async encrypt(): Promise<TypedEncryptedInput<T>> {
+    if (this.entries.length === 0) throw new Error('Encrypted input is empty. Add at least one value.');
+
+    const input = this.instance.createEncryptedInput(this.contractAddress, this.userAddress);
+    for (const entry of this.entries) {
+      addToRelayerInput(input, entry);
+    }
+    const result = normalizeEncryptedInputResult(await input.encrypt(), this.entries.length);
+
+    return {
+      handles: result.handles as TypedEncryptedInput<T>['handles'],
+      types: this.types,
+      inputProof: result.inputProof,
+    };
+  }
+
+  // The builder mutates in place; only its type parameter grows
+  private push<U extends FheInputType>(type: U, value: unknown): EncryptedInputBuilder<[...T, U]> {
+    this.entries.push(toInputEntry(type, value));
+    return this as unknown as EncryptedInputBuilder<[...T, U]>;
+  }
+}
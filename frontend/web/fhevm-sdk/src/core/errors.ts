@@ -0,0 +1,263 @@
+/**
+ * FHEVM SDK Errors - Universal SDK
+ * Typed errors so callers can branch with instanceof instead of message text
+ */
+
+import type { Interface } from 'ethers';
+import { decodeRevertData, extractRevertData } from './revert.js';
+
+export class FhevmError extends Error {
+  readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = options?.cause;
+  }
+}
+
+/**
+ * The relayer returned data in a shape the SDK cannot encode for a contract call
+ */
+export class FhevmEncodingError extends FhevmError {}
+
+/**
+ * An SDK function was called before the relayer instance was created
+ */
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.') {
+    super(message);
+  }
+}
+
+/**
+ * The wallet/provider is connected to a different chain than the selected network profile
+ */
+export class WrongChainError extends FhevmError {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expectedChainId: number, actualChainId: number, networkName: string) {
+    super(
+      `Wallet is connected to chain ${actualChainId}, but the "${networkName}" FHEVM network expects chain ${expectedChainId}. Please switch networks.`
+    );
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+/**
+ * The relayer / gateway could not be reached
+ */
+export class RelayerUnavailableError extends FhevmError {
+  constructor(options?: { cause?: unknown }) {
+    super('Decryption service is temporarily unavailable. Please try again later.', options);
+  }
+}
+
+/**
+ * The user declined a signature or transaction in their wallet
+ */
+export class UserRejectedError extends FhevmError {
+  constructor(options?: { cause?: unknown }) {
+    super('Request rejected by user', options);
+  }
+}
+
+/**
+ * The ACL does not allow the user/contract to decrypt a handle
+ */
+export class AclDeniedError extends FhevmError {
+  readonly handle?: string;
+
+  constructor(message: string, handle?: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.handle = handle;
+  }
+}
+
+/**
+ * A value is not a well-formed FHEVM ciphertext handle, or belongs to another chain
+ */
+export class InvalidHandleError extends FhevmError {
+  readonly handle: string;
+
+  constructor(message: string, handle: string) {
+    super(message);
+    this.handle = handle;
+  }
+}
+
+/**
+ * A contract call or gas estimate reverted
+ */
+export class ContractRevertError extends FhevmError {
+  /** Custom error name, e.g. 'InvalidKMSSignatures' */
+  readonly errorName?: string;
+  readonly args: unknown[];
+  /** Error(string) reason, e.g. 'Device already registered' */
+  readonly reason?: string;
+  /** Raw revert data */
+  readonly data?: string;
+
+  constructor(
+    message: string,
+    details: { errorName?: string; args?: unknown[]; reason?: string; data?: string } = {},
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.errorName = details.errorName;
+    this.args = details.args ?? [];
+    this.reason = details.reason;
+    this.data = details.data;
+  }
+}
+
+/**
+ * A device heartbeat failed validation, signature or replay checks
+ */
+export class HeartbeatRejectedError extends FhevmError {}
+
+/**
+ * A challenge response was unknown, replayed, expired or not signed by the device's registered key
+ */
+export class ChallengeRejectedError extends FhevmError {}
+
+/** KMS signatures in a decryption proof failed FHE.checkSignatures */
+export class InvalidKmsSignaturesError extends ContractRevertError {}
+
+/** The contract's chain is not configured for the Zama protocol */
+export class ZamaProtocolUnsupportedError extends ContractRevertError {}
+
+export class DeviceAlreadyRegisteredError extends ContractRevertError {}
+
+export class DeviceNotFoundError extends ContractRevertError {}
+
+export class DeviceInactiveError extends ContractRevertError {}
+
+export class NotDeviceOwnerError extends ContractRevertError {}
+
+/** Empty or malformed proof / encrypted input */
+export class InvalidProofError extends ContractRevertError {}
+
+export class DataAlreadyVerifiedError extends ContractRevertError {}
+
+/** The signed authentication challenge expired before authenticateDevice() was mined */
+export class StaleAuthenticationError extends ContractRevertError {}
+
+/** authenticateDevice() signature not made by the device's registered key over its current auth nonce */
+export class InvalidDeviceSignatureError extends ContractRevertError {}
+
+/** acceptTransfer() called by an address other than the proposed owner */
+export class NotPendingOwnerError extends ContractRevertError {}
+
+/** Transfer to the zero address or to the current owner, or cancel without a pending transfer */
+export class InvalidTransferError extends ContractRevertError {}
+
+/** Lifecycle transition not allowed from the device's current state (see DEVICE_STATE_TRANSITIONS) */
+export class InvalidStateTransitionError extends ContractRevertError {}
+
+type ContractRevertErrorClass = typeof ContractRevertError;
+
+const CUSTOM_ERRORS: Record<string, { errorClass: ContractRevertErrorClass; message: string }> = {
+  InvalidKMSSignatures: {
+    errorClass: InvalidKmsSignaturesError,
+    message: 'Decryption proof rejected: invalid KMS signatures',
+  },
+  KMSInvalidSigner: {
+    errorClass: InvalidKmsSignaturesError,
+    message: 'Decryption proof rejected: invalid KMS signatures',
+  },
+  ZamaProtocolUnsupported: {
+    errorClass: ZamaProtocolUnsupportedError,
+    message: 'The Zama FHEVM protocol is not supported on this chain',
+  },
+};
+
+/** Error(string) reasons used by DeviceAuthFHE and UniversalFHEAdapter */
+const REVERT_REASONS: Record<string, ContractRevertErrorClass> = {
+  'Device already registered': DeviceAlreadyRegisteredError,
+  'Device not found': DeviceNotFoundError,
+  'Device inactive': DeviceInactiveError,
+  'Not device owner': NotDeviceOwnerError,
+  'Invalid proof': InvalidProofError,
+  'Invalid encrypted ID': InvalidProofError,
+  'Data already verified': DataAlreadyVerifiedError,
+  'Not pending owner': NotPendingOwnerError,
+  'Invalid new owner': InvalidTransferError,
+  'No pending transfer': InvalidTransferError,
+  'Invalid state transition': InvalidStateTransitionError,
+  'Device retired': DeviceInactiveError,
+  'Challenge expired': StaleAuthenticationError,
+  'Invalid device signature': InvalidDeviceSignatureError,
+};
+
+/**
+ * Build the typed revert error for an ethers CALL_EXCEPTION or raw revert data
+ */
+export function toContractRevertError(error: any, contractInterface?: Interface): ContractRevertError {
+  const data = extractRevertData(error);
+  const decoded = data ? decodeRevertData(data, contractInterface) : undefined;
+
+  // ethers may have decoded it already when the contract ABI declares the error
+  const errorName: string | undefined =
+    decoded?.kind === 'custom' ? decoded.errorName : error?.revert?.name && error.revert.name !== 'Error' ? error.revert.name : undefined;
+  const args = decoded?.kind === 'custom' ? decoded.args : error?.revert?.args ? [...error.revert.args] : [];
+  const reason: string | undefined = decoded?.reason ?? error?.reason ?? undefined;
+
+  const custom = errorName ? CUSTOM_ERRORS[errorName] : undefined;
+  if (custom) {
+    return new custom.errorClass(custom.message, { errorName, args, reason, data }, { cause: error });
+  }
+
+  const reasonClass = reason ? REVERT_REASONS[reason] : undefined;
+  if (reasonClass) {
+    return new reasonClass(reason!, { errorName, args, reason, data }, { cause: error });
+  }
+
+  const message = errorName ? `Contract reverted with ${errorName}` : reason ? `Contract reverted: ${reason}` : 'Contract reverted';
+  return new ContractRevertError(message, { errorName, args, reason, data }, { cause: error });
+}
+
+const USER_REJECTED_CODE = 4001;
+const NETWORK_FAILURE_PATTERN = /Failed to fetch|NetworkError|fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT/;
+const ACL_DENIED_PATTERN = /is not authorized to user decrypt handle (0x[0-9a-fA-F]+)|Handle (0x[0-9a-fA-F]+) is not allowed for public decryption/;
+
+export function isUserRejection(error: any): boolean {
+  return (
+    error?.code === USER_REJECTED_CODE ||
+    error?.code === 'ACTION_REJECTED' ||
+    error?.info?.error?.code === USER_REJECTED_CODE ||
+    error?.error?.code === USER_REJECTED_CODE
+  );
+}
+
+/**
+ * Map wallet, relayer and ethers errors to the SDK's typed errors.
+ * Pass the contract interface to decode its custom errors. Unrecognized errors are returned unchanged.
+ */
+export function toFhevmError(error: unknown, contractInterface?: Interface): Error {
+  if (error instanceof FhevmError) return error;
+  const err = error as any;
+  const message: string = err?.message ?? String(error);
+
+  if (isUserRejection(err)) {
+    return new UserRejectedError({ cause: error });
+  }
+
+  // Wallets often report estimateGas reverts as UNKNOWN_ERROR with the payload nested in `info`
+  if (err?.code === 'CALL_EXCEPTION' || extractRevertData(err)) {
+    return toContractRevertError(err, contractInterface);
+  }
+
+  const acl = message.match(ACL_DENIED_PATTERN);
+  if (acl) {
+    return new AclDeniedError(message, acl[1] ?? acl[2], { cause: error });
+  }
+
+  if (NETWORK_FAILURE_PATTERN.test(message) || NETWORK_FAILURE_PATTERN.test(err?.cause?.message ?? '')) {
+    return new RelayerUnavailableError({ cause: error });
+  }
+
+  return error instanceof Error ? error : new FhevmError(message, { cause: error });
+}
@@ -0,0 +1,101 @@
+/**
+ * Ciphertext Handles - Universal SDK
+ * Reads the metadata FHEVM packs into every bytes32 handle:
+ * hash (21 bytes) | index (1) | chain id (8) | FHE type (1) | version (1)
+ */
+
+import { ethers } from 'ethers';
+import { FheInputType } from './encryptedInput.js';
+import { InvalidHandleError } from './errors.js';
+
+/** FheType codes carried in byte 30 of a handle */
+export const FHE_TYPE_CODES = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  euint128: 6,
+  eaddress: 7,
+  euint256: 8,
+} as const satisfies Record<FheInputType, number>;
+
+/** Handle layout version understood by this SDK (byte 31) */
+export const HANDLE_VERSION = 0;
+
+/** Index byte of handles produced by FHE operations rather than an encrypted input */
+const COMPUTED_INDEX = 0xff;
+
+const FHE_TYPES_BY_CODE = new Map<number, FheInputType>(
+  Object.entries(FHE_TYPE_CODES).map(([type, code]) => [code, type as FheInputType])
+);
+
+export interface ParsedHandle {
+  /** Lower-case 0x-prefixed bytes32 */
+  handle: string;
+  type: FheInputType;
+  /** Host chain the ciphertext belongs to */
+  chainId: number;
+  /** Position in the encrypted input it came from, null for a value computed on-chain */
+  index: number | null;
+  version: number;
+}
+
+/**
+ * Decode a handle's type, chain id, index and version.
+ * Throws InvalidHandleError for anything that is not a 32-byte handle of a supported type
+ * and version, or, when `expectedChainId` is given, a handle from another chain.
+ */
+export function parseHandle(handle: string | Uint8Array, expectedChainId?: number): ParsedHandle {
+  const hex = typeof handle === 'string' ? handle.toLowerCase() : ethers.hexlify(handle);
+  if (!ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(`Invalid ciphertext handle: expected a 0x-prefixed bytes32, got ${hex}`, hex);
+  }
+
+  const bytes = ethers.getBytes(hex);
+  const version = bytes[31];
+  if (version !== HANDLE_VERSION) {
+    throw new InvalidHandleError(`Unsupported handle version ${version} in ${hex}`, hex);
+  }
+
+  const type = FHE_TYPES_BY_CODE.get(bytes[30]);
+  if (!type) {
+    throw new InvalidHandleError(`Unsupported FHE type code ${bytes[30]} in handle ${hex}`, hex);
+  }
+
+  const chainId = ethers.toBigInt(bytes.subarray(22, 30));
+  if (chainId === 0n || chainId > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new InvalidHandleError(`Invalid chain id ${chainId} in handle ${hex}`, hex);
+  }
+  if (expectedChainId !== undefined && Number(chainId) !== expectedChainId) {
+    throw new InvalidHandleError(`Handle ${hex} belongs to chain ${chainId}, not ${expectedChainId}`, hex);
+  }
+
+  return {
+    handle: hex,
+    type,
+    chainId: Number(chainId),
+    index: bytes[21] === COMPUTED_INDEX ? null : bytes[21],
+    version,
+  };
+}
+
+/**
+ * True when `value` is a handle parseHandle() accepts
+ */
+export function isHandle(value: unknown, expectedChainId?: number): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    parseHandle(value, expectedChainId);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * FHE type encoded in each handle, e.g. to pass to encodeClearValues()
+ */
+export function getHandleTypes(handles: readonly (string | Uint8Array)[]): FheInputType[] {
+  return handles.map((handle) => parseHandle(handle).type);
+}
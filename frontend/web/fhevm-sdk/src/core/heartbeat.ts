@@ -0,0 +1,307 @@
+/**
+ * Device Heartbeats - Universal SDK
+ * EIP-712 signed telemetry (battery, firmware, uptime) from registered devices,
+ * verified against the publicKey stored in DeviceAuthFHE
+ */
+
+import { ethers } from 'ethers';
+import { DeviceAuthClient, DeviceInfo } from './deviceAuth.js';
+import { canAuthenticate } from './deviceLifecycle.js';
+import { DeviceNotFoundError, HeartbeatRejectedError } from './errors.js';
+
+export interface HeartbeatPayload {
+  /** DeviceAuthFHE registry key */
+  deviceKey: string;
+  /** Percent, 0-100 */
+  battery: number;
+  firmwareVersion: string;
+  uptimeSeconds: number;
+  /** Unix seconds at which the device signed the heartbeat */
+  timestamp: number;
+}
+
+export interface SignedHeartbeat {
+  payload: HeartbeatPayload;
+  signature: string;
+}
+
+export interface HeartbeatRecord extends HeartbeatPayload {
+  signature: string;
+  /** Unix seconds at which the service accepted the heartbeat */
+  receivedAt: number;
+}
+
+export interface HeartbeatDomain {
+  chainId: number;
+  /** DeviceAuthFHE address */
+  verifyingContract: string;
+}
+
+export const HEARTBEAT_TYPES = {
+  Heartbeat: [
+    { name: 'deviceKey', type: 'bytes32' },
+    { name: 'battery', type: 'uint8' },
+    { name: 'firmwareVersion', type: 'string' },
+    { name: 'uptimeSeconds', type: 'uint64' },
+    { name: 'timestamp', type: 'uint64' },
+  ],
+};
+
+function toTypedDataDomain(domain: HeartbeatDomain): ethers.TypedDataDomain {
+  return { name: 'DeviceAuthFHE Heartbeat', version: '1', chainId: domain.chainId, verifyingContract: domain.verifyingContract };
+}
+
+/**
+ * The uint256 to register as a device's publicKey so its heartbeats verify: its signing address
+ */
+export function toDevicePublicKey(signerAddress: string): bigint {
+  return BigInt(ethers.getAddress(signerAddress));
+}
+
+/**
+ * Whether a recovered secp256k1 key matches a registered publicKey, given either as the
+ * signer address (see toDevicePublicKey) or as the key's x-coordinate
+ */
+export function publicKeyMatches(registeredPublicKey: bigint, recoveredPublicKey: string): boolean {
+  if (registeredPublicKey === BigInt(ethers.computeAddress(recoveredPublicKey))) return true;
+  const uncompressed = ethers.SigningKey.computePublicKey(recoveredPublicKey, false);
+  return registeredPublicKey === BigInt(ethers.dataSlice(uncompressed, 1, 33));
+}
+
+export function validateHeartbeatPayload(payload: HeartbeatPayload) {
+  if (!ethers.isHexString(payload.deviceKey, 32)) throw new TypeError(`Invalid deviceKey: ${payload.deviceKey}`);
+  if (!Number.isInteger(payload.battery) || payload.battery < 0 || payload.battery > 100) {
+    throw new RangeError(`Battery level must be an integer between 0 and 100, got ${payload.battery}`);
+  }
+  if (typeof payload.firmwareVersion !== 'string' || payload.firmwareVersion.length > 64) {
+    throw new TypeError('firmwareVersion must be a string of at most 64 characters');
+  }
+  for (const field of ['uptimeSeconds', 'timestamp'] as const) {
+    if (!Number.isSafeInteger(payload[field]) || payload[field] < 0) {
+      throw new RangeError(`${field} must be a non-negative integer, got ${payload[field]}`);
+    }
+  }
+}
+
+/**
+ * Device side: sign a heartbeat with the key whose address/x-coordinate was registered as publicKey
+ */
+export async function signHeartbeat(
+  signer: ethers.Signer,
+  payload: HeartbeatPayload,
+  domain: HeartbeatDomain
+): Promise<SignedHeartbeat> {
+  validateHeartbeatPayload(payload);
+  const signature = await signer.signTypedData(toTypedDataDomain(domain), HEARTBEAT_TYPES, payload);
+  return { payload, signature };
+}
+
+/**
+ * Public key that signed a heartbeat (uncompressed, 0x04-prefixed)
+ */
+export function recoverHeartbeatSigner(heartbeat: SignedHeartbeat, domain: HeartbeatDomain): string {
+  const digest = ethers.TypedDataEncoder.hash(toTypedDataDomain(domain), HEARTBEAT_TYPES, heartbeat.payload);
+  return ethers.SigningKey.recoverPublicKey(digest, heartbeat.signature);
+}
+
+export interface HeartbeatStore {
+  append(record: HeartbeatRecord): Promise<void>;
+  /** Records of one device with from <= timestamp <= to, oldest first */
+  query(deviceKey: string, from?: number, to?: number): Promise<HeartbeatRecord[]>;
+  /** Latest record of every device */
+  latest(): Promise<HeartbeatRecord[]>;
+}
+
+/**
+ * In-memory store keeping the newest `maxPerDevice` records of each device
+ */
+export class MemoryHeartbeatStore implements HeartbeatStore {
+  private series = new Map<string, HeartbeatRecord[]>();
+  private maxPerDevice: number;
+
+  constructor(maxPerDevice = 10000) {
+    this.maxPerDevice = maxPerDevice;
+  }
+
+  async append(record: HeartbeatRecord) {
+    const key = record.deviceKey.toLowerCase();
+    const series = this.series.get(key) ?? [];
+    series.push(record);
+    if (series.length > this.maxPerDevice) series.splice(0, series.length - this.maxPerDevice);
+    this.series.set(key, series);
+  }
+
+  async query(deviceKey: string, from = 0, to = Number.MAX_SAFE_INTEGER) {
+    const series = this.series.get(deviceKey.toLowerCase()) ?? [];
+    return series.filter((r) => r.timestamp >= from && r.timestamp <= to);
+  }
+
+  async latest() {
+    return [...this.series.values()].map((series) => series[series.length - 1]);
+  }
+}
+
+/**
+ * Node.js store: an in-memory index backed by an append-only JSON Lines file
+ */
+export class FileHeartbeatStore implements HeartbeatStore {
+  private filePath: string;
+  private memory: MemoryHeartbeatStore;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string, maxPerDevice?: number) {
+    this.filePath = filePath;
+    this.memory = new MemoryHeartbeatStore(maxPerDevice);
+  }
+
+  async append(record: HeartbeatRecord) {
+    await this.load();
+    const fs = await eval('import("fs/promises")');
+    await fs.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    await this.memory.append(record);
+  }
+
+  async query(deviceKey: string, from?: number, to?: number) {
+    await this.load();
+    return this.memory.query(deviceKey, from, to);
+  }
+
+  async latest() {
+    await this.load();
+    return this.memory.latest();
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      // Use eval to prevent bundlers from analyzing Node-only imports
+      const fs = await eval('import("fs/promises")');
+      let content: string;
+      try {
+        content = await fs.readFile(this.filePath, 'utf8');
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return;
+        throw error;
+      }
+      for (const line of content.split('\n')) {
+        if (line.trim()) await this.memory.append(JSON.parse(line));
+      }
+    })();
+    return this.loaded;
+  }
+}
+
+export interface HeartbeatSummary {
+  /** Devices that sent at least one heartbeat */
+  reportingDevices: number;
+  /** Devices whose latest heartbeat is newer than staleAfterSeconds */
+  activeDevices: number;
+  /** Mean battery of the latest heartbeat of each active device */
+  averageBattery: number;
+}
+
+export interface HeartbeatServiceOptions {
+  /** Defaults to MemoryHeartbeatStore */
+  store?: HeartbeatStore;
+  /** Maximum distance between a heartbeat's timestamp and the service clock. Defaults to 300 s */
+  maxClockSkewSeconds?: number;
+  /** A device counts as active while its latest heartbeat is younger than this. Defaults to 600 s */
+  staleAfterSeconds?: number;
+}
+
+export class HeartbeatService {
+  private deviceAuth: DeviceAuthClient;
+  private domain: HeartbeatDomain;
+  private store: HeartbeatStore;
+  private maxClockSkewSeconds: number;
+  private staleAfterSeconds: number;
+  /** Serializes the replay check + append per device */
+  private appending = new Map<string, Promise<unknown>>();
+
+  constructor(deviceAuth: DeviceAuthClient, chainId: number, options: HeartbeatServiceOptions = {}) {
+    this.deviceAuth = deviceAuth;
+    this.domain = { chainId, verifyingContract: deviceAuth.address };
+    this.store = options.store ?? new MemoryHeartbeatStore();
+    this.maxClockSkewSeconds = options.maxClockSkewSeconds ?? 300;
+    this.staleAfterSeconds = options.staleAfterSeconds ?? 600;
+  }
+
+  get heartbeatDomain(): HeartbeatDomain {
+    return this.domain;
+  }
+
+  /**
+   * Verify and store a heartbeat. Throws HeartbeatRejectedError for invalid, unknown, inactive,
+   * stale or replayed heartbeats.
+   */
+  async ingest(heartbeat: SignedHeartbeat, now = Math.floor(Date.now() / 1000)): Promise<HeartbeatRecord> {
+    const { payload, signature } = heartbeat;
+    try {
+      validateHeartbeatPayload(payload);
+    } catch (error: any) {
+      throw new HeartbeatRejectedError(error.message);
+    }
+    if (Math.abs(now - payload.timestamp) > this.maxClockSkewSeconds) {
+      throw new HeartbeatRejectedError(`Heartbeat timestamp ${payload.timestamp} is too far from server time ${now}`);
+    }
+
+    let recovered: string;
+    try {
+      recovered = recoverHeartbeatSigner(heartbeat, this.domain);
+    } catch {
+      throw new HeartbeatRejectedError('Malformed heartbeat signature');
+    }
+
+    let device: DeviceInfo;
+    try {
+      device = await this.deviceAuth.getDevice(payload.deviceKey);
+    } catch (error) {
+      if (error instanceof DeviceNotFoundError) throw new HeartbeatRejectedError(`Device ${payload.deviceKey} is not registered`);
+      throw error;
+    }
+    // Provisioned devices report before their first authentication; suspended and retired ones are refused
+    if (!canAuthenticate(device.state)) throw new HeartbeatRejectedError(`Device ${payload.deviceKey} is ${device.state}`);
+    if (!publicKeyMatches(device.publicKey, recovered)) {
+      throw new HeartbeatRejectedError(`Heartbeat was not signed by the registered key of device ${payload.deviceKey}`);
+    }
+
+    const key = payload.deviceKey.toLowerCase();
+    const previous = this.appending.get(key) ?? Promise.resolve();
+    const append = previous.catch(() => undefined).then(async () => {
+      const [last] = (await this.store.query(payload.deviceKey)).slice(-1);
+      if (last && payload.timestamp <= last.timestamp) {
+        throw new HeartbeatRejectedError(`Replayed or out-of-order heartbeat (last accepted at ${last.timestamp})`);
+      }
+      const record: HeartbeatRecord = { ...payload, signature, receivedAt: now };
+      await this.store.append(record);
+      return record;
+    });
+    this.appending.set(key, append);
+    try {
+      return await append;
+    } finally {
+      if (this.appending.get(key) === append) this.appending.delete(key);
+    }
+  }
+
+  getSeries(deviceKey: string, from?: number, to?: number): Promise<HeartbeatRecord[]> {
+    return this.store.query(deviceKey, from, to);
+  }
+
+  getLatest(): Promise<HeartbeatRecord[]> {
+    return this.store.latest();
+  }
+
+  isActive(record: HeartbeatRecord, now = Math.floor(Date.now() / 1000)): boolean {
+    return now - record.timestamp < this.staleAfterSeconds;
+  }
+
+  async getSummary(now = Math.floor(Date.now() / 1000)): Promise<HeartbeatSummary> {
+    const latest = await this.store.latest();
+    const active = latest.filter((r) => this.isActive(r, now));
+    return {
+      reportingDevices: latest.length,
+      activeDevices: active.length,
+      averageBattery: active.length > 0 ? active.reduce((sum, r) => sum + r.battery, 0) / active.length : 0,
+    };
+  }
+}
@@ -5,5 +5,25 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './client.js';
+export * from './networks.js';
+export * from './providerPool.js';
+export * from './eip1193.js';
+export * from './decryptionSession.js';
+export * from './encryptedInput.js';
+export * from './clearValues.js';
+export * from './handles.js';
+export * from './mockRelayer.js';
+export * from './errors.js';
+export * from './revert.js';
 export * from './contracts.js';
+export * from './deviceAuth.js';
+export * from './multicall.js';
+export * from './universalAdapter.js';
+export * from './deviceMetadata.js';
+export * from './deviceLifecycle.js';
+export * from './provisioning.js';
+export * from './indexer.js';
+export * from './heartbeat.js';
+export * from './challenge.js';
 
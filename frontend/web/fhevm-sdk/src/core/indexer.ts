@@ -0,0 +1,617 @@
+/**
+ * Device Event Indexer - Universal SDK
+ * Backfills and follows UniversalFHEAdapter / DeviceAuthFHE logs into a local
+ * store keyed by device ID, so dashboards don't need one RPC per device
+ */
+
+import { ethers } from 'ethers';
+import { DEVICE_AUTH_ABI } from './deviceAuth.js';
+import { DeviceState, DeviceStateReason, deviceStateFromCode, deviceStateReasonFromCode } from './deviceLifecycle.js';
+import { DEFAULT_LOGGER, FhevmLogger } from './logger.js';
+import { MulticallOptions } from './multicall.js';
+import { BusinessData, UNIVERSAL_ADAPTER_ABI, UniversalAdapterReader, businessIdTopic } from './universalAdapter.js';
+
+export type IndexedDeviceSource = 'adapter' | 'deviceAuth';
+
+/**
+ * Adapter records go pending -> verified, DeviceAuthFHE records registered -> authenticated.
+ * This is event history: an authenticated device may since have been suspended or revoked, see IndexedDevice.state.
+ */
+export type IndexedDeviceStatus = 'pending' | 'verified' | 'registered' | 'authenticated';
+
+export interface IndexedDevice {
+  /** businessId for adapter records (its topic hash until resolved), registry key for DeviceAuthFHE */
+  id: string;
+  source: IndexedDeviceSource;
+  owner: string;
+  status: IndexedDeviceStatus;
+  /** Block timestamp of the creation/registration event, Unix seconds */
+  createdAt: number;
+  createdBlock: number;
+  /** Block timestamp of the latest event for this device */
+  updatedAt: number;
+  /** Value published by DecryptionVerified */
+  decryptedValue?: bigint;
+  /** authTime of the latest DeviceAuthenticated */
+  lastAuthTime?: bigint;
+  /** Nominated owner of a proposed, not yet accepted ownership transfer */
+  pendingOwner?: string;
+  /** DeviceAuthFHE lifecycle state; undefined for adapter records */
+  state?: DeviceState;
+  stateReason?: DeviceStateReason;
+  /** Block timestamp of the latest lifecycle transition */
+  stateChangedAt?: number;
+  /** getBusinessData() result, fetched once per new adapter record */
+  details?: BusinessData;
+}
+
+export type IndexedEvent = {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** Block timestamp, Unix seconds */
+  timestamp: number;
+} & (
+  | { type: 'BusinessDataCreated'; businessIdHash: string; creator: string }
+  | { type: 'DecryptionVerified'; businessIdHash: string; decryptedValue: bigint }
+  | { type: 'DeviceRegistered'; deviceKey: string; owner: string }
+  | { type: 'DeviceAuthenticated'; deviceKey: string; authTime: bigint }
+  | { type: 'DeviceTransferProposed'; deviceKey: string; owner: string; newOwner: string }
+  | { type: 'DeviceTransferCancelled'; deviceKey: string; owner: string }
+  | { type: 'DeviceTransferred'; deviceKey: string; previousOwner: string; newOwner: string }
+  | { type: 'DeviceStateChanged'; deviceKey: string; from: DeviceState; to: DeviceState; reason: DeviceStateReason }
+);
+
+export interface DeviceQuery {
+  owner?: string;
+  status?: IndexedDeviceStatus | IndexedDeviceStatus[];
+  /** Lifecycle state; only DeviceAuthFHE records match */
+  state?: DeviceState | DeviceState[];
+  source?: IndexedDeviceSource;
+  /** createdAt lower bound, Unix seconds (inclusive) */
+  from?: number;
+  /** createdAt upper bound, Unix seconds (inclusive) */
+  to?: number;
+}
+
+export interface DeviceIndexerOptions {
+  /** UniversalFHEAdapter address */
+  adapterAddress?: string;
+  /** DeviceAuthFHE address */
+  deviceAuthAddress?: string;
+  /** First block to backfill. Defaults to the adapter's (or registry's) deployment block */
+  fromBlock?: number;
+  /** Blocks per eth_getLogs request. Halved automatically when a provider rejects the range. Defaults to 2000 */
+  batchSize?: number;
+  /** Number of recent block hashes kept for reorg detection. Defaults to 64 */
+  reorgDepth?: number;
+  /** Fetch getBusinessData() for new adapter records. Defaults to true */
+  fetchDetails?: boolean;
+  /** Batching of the getBusinessData() reads */
+  multicall?: MulticallOptions;
+  /** Receives reorg notices and background sync failures. Defaults to warnings and errors on the console */
+  logger?: FhevmLogger;
+}
+
+export type DeviceIndexListener = (devices: IndexedDevice[]) => void;
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 64;
+
+const adapterInterface = new ethers.Interface(UNIVERSAL_ADAPTER_ABI);
+const deviceAuthInterface = new ethers.Interface(DEVICE_AUTH_ABI);
+
+/**
+ * Binary-search the first block at which an address has code (needs an archive-capable RPC)
+ */
+export async function findDeploymentBlock(provider: ethers.Provider, address: string, toBlock?: number): Promise<number> {
+  let high = toBlock ?? (await provider.getBlockNumber());
+  if ((await provider.getCode(address, high)) === '0x') {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+  let low = 0;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, mid)) === '0x') {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+export interface AdapterSnapshot {
+  /** Newest first */
+  devices: IndexedDevice[];
+  /** Per-ID getBusinessData() failures; those records are left out of `devices` */
+  errors: Map<string, Error>;
+}
+
+/**
+ * Adapter records read from current state: getAllBusinessIds() plus batched getBusinessData().
+ * For when the deployment block is unknown, so a log backfill would mean an archive search and getLogs
+ * from genesis. There is no event history: createdBlock is 0 and createdAt/updatedAt are the record timestamp.
+ */
+export async function readAdapterDevices(
+  provider: ethers.Provider,
+  adapterAddress: string,
+  multicall?: MulticallOptions
+): Promise<AdapterSnapshot> {
+  const reader = new UniversalAdapterReader(provider, adapterAddress, multicall);
+  const { values, errors } = await reader.getBusinessData(await reader.getAllBusinessIds());
+
+  const devices = [...values.values()].map((data): IndexedDevice => {
+    const timestamp = Number(data.timestamp);
+    return {
+      id: data.businessId,
+      source: 'adapter',
+      owner: data.creator,
+      status: data.isVerified ? 'verified' : 'pending',
+      createdAt: timestamp,
+      createdBlock: 0,
+      updatedAt: timestamp,
+      decryptedValue: data.isVerified ? data.decryptedValue : undefined,
+      details: data,
+    };
+  });
+  return { devices: devices.sort((a, b) => b.createdAt - a.createdAt), errors };
+}
+
+/** eth_getLogs rejections that a narrower block range fixes, as worded by common providers */
+const RANGE_ERROR_PATTERN =
+  /block range|range (is )?too (large|wide|big)|exceeds? (the )?max(imum)? (block )?range|more than \d+ results|response size|query exceeds|logs matched by query exceeds|too many (logs|results|blocks)/i;
+
+/**
+ * Whether getLogs failed because of the requested range. Rate limits and outages are
+ * rethrown rather than split; isEndpointError() in providerPool covers those.
+ */
+function isRangeError(error: any): boolean {
+  const message = `${error?.message ?? ''} ${error?.error?.message ?? ''}`;
+  return RANGE_ERROR_PATTERN.test(message);
+}
+
+export class DeviceIndexer {
+  private provider: ethers.Provider;
+  private addresses: string[];
+  private adapterAddress?: string;
+  private deviceAuthAddress?: string;
+  private fromBlock?: number;
+  private batchSize: number;
+  private reorgDepth: number;
+  private fetchDetails: boolean;
+  private multicall?: MulticallOptions;
+  private logger: FhevmLogger;
+
+  /** Last block whose logs are fully indexed, -1 before the first sync */
+  private lastBlock = -1;
+  private events: IndexedEvent[] = [];
+  private blockHashes = new Map<number, string>();
+  private blockTimestamps = new Map<number, number>();
+  /** keccak256(businessId) -> businessId */
+  private businessIds = new Map<string, string>();
+  private details = new Map<string, BusinessData>();
+  private devices = new Map<string, IndexedDevice>();
+
+  private listeners = new Set<DeviceIndexListener>();
+  private syncing: Promise<number> | null = null;
+  private resyncRequested = false;
+  private blockListener: (() => void) | null = null;
+
+  constructor(provider: ethers.Provider, options: DeviceIndexerOptions) {
+    if (!options.adapterAddress && !options.deviceAuthAddress) {
+      throw new Error('DeviceIndexer needs an adapterAddress and/or a deviceAuthAddress');
+    }
+    this.provider = provider;
+    this.adapterAddress = options.adapterAddress && ethers.getAddress(options.adapterAddress);
+    this.deviceAuthAddress = options.deviceAuthAddress && ethers.getAddress(options.deviceAuthAddress);
+    this.addresses = [this.adapterAddress, this.deviceAuthAddress].filter((a): a is string => !!a);
+    this.fromBlock = options.fromBlock;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+    this.fetchDetails = options.fetchDetails ?? true;
+    this.multicall = options.multicall;
+    this.logger = options.logger ?? DEFAULT_LOGGER;
+  }
+
+  get syncedBlock(): number {
+    return this.lastBlock;
+  }
+
+  /**
+   * Index everything up to the current head. Concurrent calls share one run.
+   * Resolves to the last indexed block.
+   */
+  sync(): Promise<number> {
+    if (this.syncing) {
+      this.resyncRequested = true;
+      return this.syncing;
+    }
+    this.syncing = this.runSync().finally(() => {
+      this.syncing = null;
+      if (this.resyncRequested) {
+        this.resyncRequested = false;
+        this.sync().catch((error) => this.logger.error('❌ Device index sync failed:', error));
+      }
+    });
+    return this.syncing;
+  }
+
+  /**
+   * Backfill, then keep following new blocks until stop()
+   */
+  async start(): Promise<void> {
+    await this.sync();
+    if (this.blockListener) return;
+    this.blockListener = () => {
+      this.sync().catch((error) => this.logger.error('❌ Device index sync failed:', error));
+    };
+    await this.provider.on('block', this.blockListener);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.blockListener) return;
+    await this.provider.off('block', this.blockListener);
+    this.blockListener = null;
+  }
+
+  /**
+   * Subscribe to index changes. Returns an unsubscribe function.
+   */
+  onChange(listener: DeviceIndexListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getDevice(id: string): IndexedDevice | undefined {
+    return this.devices.get(id);
+  }
+
+  /**
+   * Devices matching every given criterion, newest first
+   */
+  query(filter: DeviceQuery = {}): IndexedDevice[] {
+    const owner = filter.owner?.toLowerCase();
+    const statuses = filter.status === undefined ? undefined : ([] as IndexedDeviceStatus[]).concat(filter.status);
+    const states = filter.state === undefined ? undefined : ([] as DeviceState[]).concat(filter.state);
+
+    return [...this.devices.values()]
+      .filter(
+        (d) =>
+          (owner === undefined || d.owner.toLowerCase() === owner) &&
+          (statuses === undefined || statuses.includes(d.status)) &&
+          (states === undefined || (d.state !== undefined && states.includes(d.state))) &&
+          (filter.source === undefined || d.source === filter.source) &&
+          (filter.from === undefined || d.createdAt >= filter.from) &&
+          (filter.to === undefined || d.createdAt <= filter.to)
+      )
+      .sort((a, b) => b.createdBlock - a.createdBlock);
+  }
+
+  getByOwner(owner: string): IndexedDevice[] {
+    return this.query({ owner });
+  }
+
+  getByStatus(status: IndexedDeviceStatus | IndexedDeviceStatus[]): IndexedDevice[] {
+    return this.query({ status });
+  }
+
+  getByState(state: DeviceState | DeviceState[]): IndexedDevice[] {
+    return this.query({ state });
+  }
+
+  getByTimeRange(from: number, to: number): IndexedDevice[] {
+    return this.query({ from, to });
+  }
+
+  /**
+   * Indexed events, oldest first
+   */
+  getEvents(): readonly IndexedEvent[] {
+    return this.events;
+  }
+
+  private async runSync(): Promise<number> {
+    const head = await this.provider.getBlock('latest');
+    if (!head || !head.hash) throw new Error('Could not fetch the latest block');
+
+    let changed = await this.handleReorg();
+
+    if (this.lastBlock < 0) {
+      this.fromBlock ??= await this.findStartBlock(head.number);
+      this.lastBlock = this.fromBlock - 1;
+    }
+
+    for (let from = this.lastBlock + 1; from <= head.number; ) {
+      const to = Math.min(from + this.batchSize - 1, head.number);
+      const events = await this.fetchEvents(from, to);
+      if (events.length > 0) {
+        this.events.push(...events);
+        changed = true;
+      }
+      this.lastBlock = to;
+      from = to + 1;
+    }
+
+    this.blockHashes.set(head.number, head.hash);
+    this.blockTimestamps.set(head.number, head.timestamp);
+    this.pruneBlockHashes();
+
+    if (changed) {
+      await this.resolveBusinessIds();
+      this.rebuild();
+      this.emit();
+    }
+    return this.lastBlock;
+  }
+
+  /**
+   * Compare remembered block hashes with the chain and drop events from orphaned blocks
+   */
+  private async handleReorg(): Promise<boolean> {
+    const tracked = [...this.blockHashes.keys()].sort((a, b) => b - a);
+    if (tracked.length === 0) return false;
+
+    for (const blockNumber of tracked) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block?.hash === this.blockHashes.get(blockNumber)) {
+        if (blockNumber === tracked[0]) return false;
+        this.logger.warn(`⚠️ Reorg detected, rolling device index back to block ${blockNumber}`);
+        this.rollback(blockNumber);
+        return true;
+      }
+    }
+
+    // Deeper than the tracked window: start over
+    this.logger.warn('⚠️ Reorg deeper than the tracked window, re-indexing from scratch');
+    this.rollback(-1);
+    return true;
+  }
+
+  private rollback(toBlock: number) {
+    this.events = this.events.filter((e) => e.blockNumber <= toBlock);
+    for (const blockNumber of [...this.blockHashes.keys()]) {
+      if (blockNumber > toBlock) this.blockHashes.delete(blockNumber);
+    }
+    for (const blockNumber of [...this.blockTimestamps.keys()]) {
+      if (blockNumber > toBlock) this.blockTimestamps.delete(blockNumber);
+    }
+    this.lastBlock = toBlock;
+  }
+
+  private pruneBlockHashes() {
+    const oldest = this.lastBlock - this.reorgDepth;
+    for (const blockNumber of [...this.blockHashes.keys()]) {
+      if (blockNumber < oldest) this.blockHashes.delete(blockNumber);
+    }
+    for (const blockNumber of [...this.blockTimestamps.keys()]) {
+      if (blockNumber < oldest) this.blockTimestamps.delete(blockNumber);
+    }
+  }
+
+  private async findStartBlock(head: number): Promise<number> {
+    const blocks = await Promise.all(this.addresses.map((address) => findDeploymentBlock(this.provider, address, head)));
+    return Math.min(...blocks);
+  }
+
+  /**
+   * eth_getLogs over [from, to], splitting the range when the provider rejects it
+   */
+  private async fetchEvents(from: number, to: number): Promise<IndexedEvent[]> {
+    let logs: ethers.Log[];
+    try {
+      logs = await this.provider.getLogs({ address: this.addresses, fromBlock: from, toBlock: to });
+    } catch (error) {
+      if (to > from && isRangeError(error)) {
+        const mid = Math.floor((from + to) / 2);
+        this.batchSize = Math.max(1, Math.ceil(this.batchSize / 2));
+        return [...(await this.fetchEvents(from, mid)), ...(await this.fetchEvents(mid + 1, to))];
+      }
+      throw error;
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      if (log.removed) continue;
+      const timestamp = await this.getBlockTimestamp(log.blockNumber);
+      const event = this.decodeLog(log, timestamp);
+      if (!event) continue;
+      events.push(event);
+      this.blockHashes.set(log.blockNumber, log.blockHash);
+    }
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private decodeLog(log: ethers.Log, timestamp: number): IndexedEvent | null {
+    const base = {
+      address: log.address,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp,
+    };
+    const isAdapter = log.address.toLowerCase() === this.adapterAddress?.toLowerCase();
+    const iface = isAdapter ? adapterInterface : deviceAuthInterface;
+
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = iface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      return null;
+    }
+    if (!parsed) return null;
+
+    switch (parsed.name) {
+      case 'BusinessDataCreated':
+        // Indexed strings are only available as their hash
+        return { ...base, type: 'BusinessDataCreated', businessIdHash: log.topics[1], creator: parsed.args.creator };
+      case 'DecryptionVerified':
+        return { ...base, type: 'DecryptionVerified', businessIdHash: log.topics[1], decryptedValue: BigInt(parsed.args.decryptedValue) };
+      case 'DeviceRegistered':
+        return { ...base, type: 'DeviceRegistered', deviceKey: parsed.args.encryptedId, owner: parsed.args.owner };
+      case 'DeviceAuthenticated':
+        return { ...base, type: 'DeviceAuthenticated', deviceKey: parsed.args.encryptedId, authTime: BigInt(parsed.args.authTime) };
+      case 'DeviceTransferProposed':
+        return { ...base, type: 'DeviceTransferProposed', deviceKey: parsed.args.encryptedId, owner: parsed.args.owner, newOwner: parsed.args.newOwner };
+      case 'DeviceTransferCancelled':
+        return { ...base, type: 'DeviceTransferCancelled', deviceKey: parsed.args.encryptedId, owner: parsed.args.owner };
+      case 'DeviceTransferred':
+        return {
+          ...base,
+          type: 'DeviceTransferred',
+          deviceKey: parsed.args.encryptedId,
+          previousOwner: parsed.args.previousOwner,
+          newOwner: parsed.args.newOwner,
+        };
+      case 'DeviceStateChanged':
+        return {
+          ...base,
+          type: 'DeviceStateChanged',
+          deviceKey: parsed.args.encryptedId,
+          from: deviceStateFromCode(parsed.args.from),
+          to: deviceStateFromCode(parsed.args.to),
+          reason: deviceStateReasonFromCode(parsed.args.reason),
+        };
+      default:
+        return null;
+    }
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    this.blockTimestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  /**
+   * Map businessId hashes from logs back to IDs (one getAllBusinessIds call) and fetch new details
+   */
+  private async resolveBusinessIds() {
+    if (!this.adapterAddress) return;
+    const reader = new UniversalAdapterReader(this.provider, this.adapterAddress, this.multicall);
+
+    const unresolved = this.events.some((e) => e.type === 'BusinessDataCreated' && !this.businessIds.has(e.businessIdHash));
+    if (unresolved) {
+      for (const id of await reader.getAllBusinessIds()) this.businessIds.set(businessIdTopic(id), id);
+    }
+
+    if (!this.fetchDetails) return;
+    const missing: string[] = [];
+    for (const event of this.events) {
+      if (event.type !== 'BusinessDataCreated') continue;
+      const id = this.businessIds.get(event.businessIdHash);
+      if (id && !this.details.has(id)) missing.push(id);
+    }
+    const { values, errors } = await reader.getBusinessData(missing);
+    values.forEach((data, id) => this.details.set(id, data));
+    errors.forEach((error, id) => this.logger.error(`❌ Failed to load business data for ${id}:`, error));
+  }
+
+  /**
+   * Replay the event log into per-device records
+   */
+  private rebuild() {
+    const devices = new Map<string, IndexedDevice>();
+
+    for (const event of this.events) {
+      switch (event.type) {
+        case 'BusinessDataCreated': {
+          const id = this.businessIds.get(event.businessIdHash) ?? event.businessIdHash;
+          devices.set(id, {
+            id,
+            source: 'adapter',
+            owner: event.creator,
+            status: 'pending',
+            createdAt: event.timestamp,
+            createdBlock: event.blockNumber,
+            updatedAt: event.timestamp,
+            details: this.details.get(id),
+          });
+          break;
+        }
+        case 'DecryptionVerified': {
+          const device = devices.get(this.businessIds.get(event.businessIdHash) ?? event.businessIdHash);
+          if (!device) break;
+          device.status = 'verified';
+          device.decryptedValue = event.decryptedValue;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+        case 'DeviceRegistered':
+          devices.set(event.deviceKey, {
+            id: event.deviceKey,
+            source: 'deviceAuth',
+            owner: event.owner,
+            status: 'registered',
+            createdAt: event.timestamp,
+            createdBlock: event.blockNumber,
+            updatedAt: event.timestamp,
+            state: 'provisioned',
+            stateReason: 'unspecified',
+            stateChangedAt: event.timestamp,
+          });
+          break;
+        case 'DeviceAuthenticated': {
+          const device = devices.get(event.deviceKey);
+          if (!device) break;
+          device.status = 'authenticated';
+          device.lastAuthTime = event.authTime;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+        case 'DeviceTransferProposed': {
+          const device = devices.get(event.deviceKey);
+          if (!device) break;
+          device.pendingOwner = event.newOwner;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+        case 'DeviceTransferCancelled': {
+          const device = devices.get(event.deviceKey);
+          if (!device) break;
+          delete device.pendingOwner;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+        case 'DeviceTransferred': {
+          const device = devices.get(event.deviceKey);
+          if (!device) break;
+          device.owner = event.newOwner;
+          delete device.pendingOwner;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+        case 'DeviceStateChanged': {
+          const device = devices.get(event.deviceKey);
+          if (!device) break;
+          device.state = event.to;
+          device.stateReason = event.reason;
+          device.stateChangedAt = event.timestamp;
+          device.updatedAt = event.timestamp;
+          break;
+        }
+      }
+    }
+
+    this.devices = devices;
+  }
+
+  private emit() {
+    const devices = this.query();
+    for (const listener of this.listeners) {
+      try {
+        listener(devices);
+      } catch (error) {
+        this.logger.error('❌ Device index listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Logging - Universal SDK
+ * Destination for the SDK's progress messages and recoverable failures
+ */
+
+export interface FhevmLogger {
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+/** Keeps stdout free for the host application (e.g. a CLI printing JSON) */
+export const DEFAULT_LOGGER: FhevmLogger = {
+  info: () => {},
+  warn: (message, ...details) => console.warn(message, ...details),
+  error: (message, ...details) => console.error(message, ...details),
+};
@@ -0,0 +1,363 @@
+/**
+ * Mock Relayer - Universal SDK
+ * In-memory stand-in for the Zama relayer instance: plaintexts are kept in a local store,
+ * so encryption and decryption work offline and give the same outputs for the same seed
+ */
+
+import { ethers } from 'ethers';
+import type { DecryptedValue } from './client.js';
+import { FheInputType, FHE_UINT_BITS, checkUintRange } from './encryptedInput.js';
+import { AclDeniedError, FhevmError } from './errors.js';
+import { FHE_TYPE_CODES, HANDLE_VERSION, parseHandle } from './handles.js';
+import { FhevmNetworkName, FhevmNetworkProfile, resolveNetworkProfile } from './networks.js';
+
+/**
+ * 'open': every stored handle can be decrypted by anyone.
+ * 'strict': only handles granted with allow() / makePubliclyDecryptable(), like the on-chain ACL.
+ */
+export type MockAclMode = 'open' | 'strict';
+
+export interface MockRelayerOptions {
+  /** Chain ids and contract addresses used in handles and EIP-712 domains. Defaults to 'hardhat' */
+  network?: FhevmNetworkName | FhevmNetworkProfile;
+  /** Same seed + same sequence of calls = same handles, keypairs and proofs. Defaults to 'fhevm-sdk-mock' */
+  seed?: string;
+  /** Defaults to 'open' */
+  acl?: MockAclMode;
+}
+
+const MAX_INPUT_BITS = 2048;
+
+/** Version-0 extraData the relayer and KMS use in input proofs, EIP-712 messages and decryption proofs */
+const EXTRA_DATA_V0 = '0x00';
+
+const USER_DECRYPT_TYPES = {
+  UserDecryptRequestVerification: [
+    { name: 'publicKey', type: 'bytes' },
+    { name: 'contractAddresses', type: 'address[]' },
+    { name: 'startTimestamp', type: 'uint256' },
+    { name: 'durationDays', type: 'uint256' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+interface StoredValue {
+  type: FheInputType;
+  value: DecryptedValue;
+}
+
+type SealInput = (entries: readonly StoredValue[]) => { handles: Uint8Array[]; inputProof: Uint8Array };
+
+function typeBits(type: FheInputType): number {
+  if (type === 'ebool') return 2;
+  if (type === 'eaddress') return 160;
+  return FHE_UINT_BITS[type];
+}
+
+function toPlaintext(type: FheInputType, value: unknown): DecryptedValue {
+  if (type === 'ebool') {
+    if (typeof value !== 'boolean') throw new TypeError(`ebool value must be a boolean, got ${typeof value}`);
+    return value;
+  }
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) throw new TypeError(`eaddress value must be an address, got ${value}`);
+    return ethers.getAddress(value);
+  }
+  return checkUintRange(type, value as number | bigint);
+}
+
+/** Clear values are ABI-encoded as uint256 words, as the KMS signs them */
+function toWord(value: DecryptedValue): bigint {
+  if (typeof value === 'boolean') return value ? 1n : 0n;
+  return BigInt(value);
+}
+
+/**
+ * Encrypted input returned by MockRelayer.createEncryptedInput(); mirrors the relayer SDK's add* methods
+ */
+export class MockEncryptedInput {
+  private seal: SealInput;
+  private entries: StoredValue[] = [];
+  private bits = 0;
+  readonly contractAddress: string;
+  readonly userAddress: string;
+
+  constructor(contractAddress: string, userAddress: string, seal: SealInput) {
+    this.seal = seal;
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+  }
+
+  addBool(value: boolean) {
+    return this.add('ebool', value);
+  }
+
+  add8(value: number | bigint) {
+    return this.add('euint8', value);
+  }
+
+  add16(value: number | bigint) {
+    return this.add('euint16', value);
+  }
+
+  add32(value: number | bigint) {
+    return this.add('euint32', value);
+  }
+
+  add64(value: number | bigint) {
+    return this.add('euint64', value);
+  }
+
+  add128(value: number | bigint) {
+    return this.add('euint128', value);
+  }
+
+  add256(value: number | bigint) {
+    return this.add('euint256', value);
+  }
+
+  addAddress(value: string) {
+    return this.add('eaddress', value);
+  }
+
+  async encrypt(): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+    if (this.entries.length === 0) throw new Error('Encrypted input is empty. Add at least one value.');
+    return this.seal(this.entries);
+  }
+
+  private add(type: FheInputType, value: unknown): this {
+    if (this.bits + typeBits(type) > MAX_INPUT_BITS) {
+      throw new RangeError(`Encrypted input exceeds ${MAX_INPUT_BITS} bits`);
+    }
+    this.entries.push({ type, value: toPlaintext(type, value) });
+    this.bits += typeBits(type);
+    return this;
+  }
+}
+
+/**
+ * Offline relayer instance, accepted wherever the SDK expects one:
+ * createFhevmClient({ mockRelayer: new MockRelayer() }) or initializeFheInstance({ mockRelayer: true }).
+ *
+ * Handles follow the FHEVM layout (hash, index, chain id, type, version); public decryption
+ * proofs are EIP-712 signatures of a deterministic mock KMS key (see kmsSignerAddress).
+ */
+export class MockRelayer {
+  private seed: string;
+  private aclMode: MockAclMode;
+  private kmsSigner: ethers.Wallet;
+  private values = new Map<string, StoredValue>();
+  private allowed = new Map<string, Set<string>>();
+  private publicHandles = new Set<string>();
+  private inputCount = 0;
+  private keypairCount = 0;
+  readonly profile: FhevmNetworkProfile;
+
+  constructor(options: MockRelayerOptions = {}) {
+    this.profile = resolveNetworkProfile(options.network ?? 'hardhat');
+    this.seed = options.seed ?? 'fhevm-sdk-mock';
+    this.aclMode = options.acl ?? 'open';
+    this.kmsSigner = new ethers.Wallet(ethers.id(`${this.seed}/kms`));
+  }
+
+  /** Address that signs public decryption proofs */
+  get kmsSignerAddress(): string {
+    return this.kmsSigner.address;
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string): MockEncryptedInput {
+    if (!ethers.isAddress(contractAddress)) throw new TypeError(`Invalid contract address: ${contractAddress}`);
+    if (!ethers.isAddress(userAddress)) throw new TypeError(`Invalid user address: ${userAddress}`);
+    return new MockEncryptedInput(contractAddress, userAddress, (entries) => {
+      const handles = this.store(contractAddress, userAddress, entries);
+      // numHandles + numSigners (none) + handles + extraData
+      const inputProof = ethers.concat([ethers.toBeHex(handles.length, 1), '0x00', ...handles, EXTRA_DATA_V0]);
+      return { handles: handles.map((handle) => ethers.getBytes(handle)), inputProof: ethers.getBytes(inputProof) };
+    });
+  }
+
+  /**
+   * Store a plaintext under a new handle, e.g. to stand in for a value a contract computed
+   */
+  storePlaintext(type: FheInputType, value: boolean | number | bigint | string): string {
+    const [handle] = this.store(ethers.ZeroAddress, ethers.ZeroAddress, [{ type, value: toPlaintext(type, value) }]);
+    return handle;
+  }
+
+  getPlaintext(handle: string): DecryptedValue | undefined {
+    return this.values.get(handle.toLowerCase())?.value;
+  }
+
+  /**
+   * FHE.allow(): let `account` (a user or a contract) decrypt the handle in 'strict' ACL mode
+   */
+  allow(handle: string, account: string) {
+    const key = handle.toLowerCase();
+    const accounts = this.allowed.get(key) ?? new Set<string>();
+    accounts.add(ethers.getAddress(account));
+    this.allowed.set(key, accounts);
+  }
+
+  /**
+   * FHE.makePubliclyDecryptable(): let anyone publicly decrypt the handle in 'strict' ACL mode
+   */
+  makePubliclyDecryptable(handle: string) {
+    this.publicHandles.add(handle.toLowerCase());
+  }
+
+  generateKeypair(): { publicKey: string; privateKey: string } {
+    const privateKey = ethers.id(`${this.seed}/keypair/${this.keypairCount++}`);
+    return { publicKey: ethers.keccak256(privateKey).slice(2), privateKey: privateKey.slice(2) };
+  }
+
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) {
+    if (!contractAddresses.every((address) => ethers.isAddress(address))) {
+      throw new TypeError('Invalid contract address.');
+    }
+    return {
+      types: USER_DECRYPT_TYPES,
+      primaryType: 'UserDecryptRequestVerification',
+      domain: {
+        name: 'Decryption',
+        version: '1',
+        chainId: this.profile.chainId,
+        verifyingContract: this.profile.verifyingContractAddressDecryption,
+      },
+      message: {
+        publicKey: publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`,
+        contractAddresses,
+        startTimestamp: startTimestamp.toString(),
+        durationDays: durationDays.toString(),
+        extraData: EXTRA_DATA_V0,
+      },
+    };
+  }
+
+  /**
+   * Checks the keypair, the EIP-712 signature, its validity window and the ACL like the relayer does
+   */
+  async userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, DecryptedValue>> {
+    if (ethers.keccak256(`0x${privateKey.replace(/^0x/, '')}`).slice(2) !== publicKey.replace(/^0x/, '')) {
+      throw new FhevmError('Keypair mismatch: the private key does not belong to the signed public key');
+    }
+
+    const eip712 = this.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(eip712.domain, eip712.types, eip712.message, ethers.hexlify(`0x${signature.replace(/^0x/, '')}`));
+    } catch {
+      throw new FhevmError('Invalid EIP-712 signature for user decryption');
+    }
+    if (signer !== ethers.getAddress(userAddress)) {
+      throw new FhevmError(`User decryption request was signed by ${signer}, not ${userAddress}`);
+    }
+
+    const expiresAt = Number(startTimestamp) + Number(durationDays) * 86400;
+    if (Math.floor(Date.now() / 1000) > expiresAt) {
+      throw new FhevmError('User decryption request has expired');
+    }
+
+    const signedContracts = contractAddresses.map((address) => ethers.getAddress(address));
+    const result: Record<string, DecryptedValue> = {};
+    for (const { handle, contractAddress } of handles) {
+      if (!signedContracts.includes(ethers.getAddress(contractAddress))) {
+        throw new FhevmError(`Contract ${contractAddress} is not part of the signed user decryption request`);
+      }
+      parseHandle(handle, this.profile.chainId);
+      const stored = this.values.get(handle.toLowerCase());
+      if (!stored || !this.isAllowed(handle, userAddress) || !this.isAllowed(handle, contractAddress)) {
+        throw new AclDeniedError(`User ${userAddress} is not authorized to user decrypt handle ${handle}!`, handle);
+      }
+      result[handle] = stored.value;
+    }
+    return result;
+  }
+
+  /**
+   * Clear values, their ABI encoding and a decryption proof (numSigners + signatures + extraData)
+   * signed by the mock KMS key
+   */
+  async publicDecrypt(handles: (string | Uint8Array)[]) {
+    const hexHandles = handles.map((handle) => (typeof handle === 'string' ? handle : ethers.hexlify(handle)));
+
+    const clearValues: Record<string, DecryptedValue> = {};
+    for (const handle of hexHandles) {
+      parseHandle(handle, this.profile.chainId);
+      const stored = this.values.get(handle.toLowerCase());
+      if (!stored || (this.aclMode === 'strict' && !this.publicHandles.has(handle.toLowerCase()))) {
+        throw new AclDeniedError(`Handle ${handle} is not allowed for public decryption!`, handle);
+      }
+      clearValues[handle] = stored.value;
+    }
+
+    const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+      hexHandles.map(() => 'uint256'),
+      hexHandles.map((handle) => toWord(clearValues[handle]))
+    );
+    const domain = {
+      name: 'Decryption',
+      version: '1',
+      chainId: this.profile.gatewayChainId,
+      verifyingContract: this.profile.verifyingContractAddressDecryption,
+    };
+    const signature = await this.kmsSigner.signTypedData(domain, PUBLIC_DECRYPT_TYPES, {
+      ctHandles: hexHandles,
+      decryptedResult: abiEncodedClearValues,
+      extraData: EXTRA_DATA_V0,
+    });
+
+    return {
+      clearValues,
+      abiEncodedClearValues,
+      decryptionProof: ethers.concat([ethers.toBeHex(1, 1), signature, EXTRA_DATA_V0]),
+    };
+  }
+
+  private store(contractAddress: string, userAddress: string, entries: readonly StoredValue[]): string[] {
+    const digest = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['string', 'uint256', 'address', 'address'],
+        [this.seed, this.inputCount++, contractAddress, userAddress]
+      )
+    );
+
+    return entries.map((entry, index) => {
+      const handle = ethers.concat([
+        ethers.dataSlice(digest, 0, 21),
+        ethers.toBeHex(index, 1),
+        ethers.toBeHex(this.profile.chainId, 8),
+        ethers.toBeHex(FHE_TYPE_CODES[entry.type], 1),
+        ethers.toBeHex(HANDLE_VERSION, 1),
+      ]);
+      this.values.set(handle, entry);
+      return handle;
+    });
+  }
+
+  private isAllowed(handle: string, account: string): boolean {
+    if (this.aclMode === 'open') return true;
+    return this.allowed.get(handle.toLowerCase())?.has(ethers.getAddress(account)) ?? false;
+  }
+}
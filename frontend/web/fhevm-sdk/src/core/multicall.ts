@@ -0,0 +1,146 @@
+/**
+ * Batched Reads - Universal SDK
+ * Aggregates view calls through Multicall3, falling back to bounded-concurrency
+ * parallel eth_calls on chains where Multicall3 is not deployed
+ */
+
+import { ethers } from 'ethers';
+import { toFhevmError } from './errors.js';
+
+/** Multicall3 is deployed at the same address on Sepolia, mainnet and most EVM chains */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface ReadCall {
+  target: string;
+  contractInterface: ethers.Interface;
+  functionName: string;
+  args?: unknown[];
+}
+
+export type ReadResult = { success: true; value: ethers.Result } | { success: false; error: Error };
+
+export interface MulticallOptions {
+  /** Multicall3 address, or false to always use parallel eth_calls */
+  multicallAddress?: string | false;
+  /** Calls per aggregate3 request. Defaults to 200 */
+  batchSize?: number;
+  /** Requests in flight at once (aggregate3 batches, or single calls in fallback mode). Defaults to 4 */
+  concurrency?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+const DEFAULT_CONCURRENCY = 4;
+
+const multicallAvailability = new WeakMap<ethers.Provider, Map<string, Promise<boolean>>>();
+
+/**
+ * Run `fn` over every item with at most `limit` promises pending; results keep input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Whether Multicall3 has code on the provider's chain. Answers are cached per provider;
+ * a failed getCode is not, so the next call asks again.
+ */
+export function isMulticallAvailable(provider: ethers.Provider, address = MULTICALL3_ADDRESS): Promise<boolean> {
+  let byAddress = multicallAvailability.get(provider);
+  if (!byAddress) {
+    byAddress = new Map();
+    multicallAvailability.set(provider, byAddress);
+  }
+  let available = byAddress.get(address);
+  if (!available) {
+    const cache = byAddress;
+    available = provider.getCode(address).then(
+      (code) => code !== '0x',
+      (error) => {
+        cache.delete(address);
+        throw error;
+      }
+    );
+    cache.set(address, available);
+  }
+  return available;
+}
+
+function decodeResult(call: ReadCall, success: boolean, returnData: string): ReadResult {
+  if (!success) {
+    return { success: false, error: toFhevmError({ code: 'CALL_EXCEPTION', data: returnData }, call.contractInterface) };
+  }
+  try {
+    return { success: true, value: call.contractInterface.decodeFunctionResult(call.functionName, returnData) };
+  } catch (error) {
+    return { success: false, error: toFhevmError(error, call.contractInterface) };
+  }
+}
+
+async function readDirect(provider: ethers.Provider, call: ReadCall): Promise<ReadResult> {
+  const data = call.contractInterface.encodeFunctionData(call.functionName, call.args ?? []);
+  try {
+    return decodeResult(call, true, await provider.call({ to: call.target, data }));
+  } catch (error) {
+    return { success: false, error: toFhevmError(error, call.contractInterface) };
+  }
+}
+
+/**
+ * Execute view calls in as few round trips as possible. A failing call does not fail the batch,
+ * and an aggregate3 request that fails as a whole is retried as single calls.
+ */
+export async function batchRead(
+  provider: ethers.Provider,
+  calls: readonly ReadCall[],
+  options: MulticallOptions = {}
+): Promise<ReadResult[]> {
+  if (calls.length === 0) return [];
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const multicallAddress = options.multicallAddress === undefined ? MULTICALL3_ADDRESS : options.multicallAddress;
+
+  // A failed availability check is treated as "not deployed" for this read only
+  if (!multicallAddress || !(await isMulticallAvailable(provider, multicallAddress).catch(() => false))) {
+    return mapWithConcurrency(calls, concurrency, (call) => readDirect(provider, call));
+  }
+
+  const multicall = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const batches: ReadCall[][] = [];
+  for (let i = 0; i < calls.length; i += batchSize) {
+    batches.push(calls.slice(i, i + batchSize));
+  }
+
+  const results = await mapWithConcurrency(batches, concurrency, async (batch) => {
+    const encoded = batch.map((call) => ({
+      target: call.target,
+      allowFailure: true,
+      callData: call.contractInterface.encodeFunctionData(call.functionName, call.args ?? []),
+    }));
+    let returned: Array<{ success: boolean; returnData: string }>;
+    try {
+      returned = await multicall.aggregate3.staticCall(encoded);
+    } catch {
+      // e.g. the batch exceeded the node's eth_call gas cap or response size
+      return mapWithConcurrency(batch, concurrency, (call) => readDirect(provider, call));
+    }
+    return batch.map((call, i) => decodeResult(call, returned[i].success, returned[i].returnData));
+  });
+  return results.flat();
+}
@@ -0,0 +1,145 @@
+/**
+ * FHEVM Network Profiles - Universal SDK
+ * Chain, contract and relayer settings used to create a relayer instance
+ */
+
+import { ethers } from 'ethers';
+import { WrongChainError } from './errors.js';
+
+export interface FhevmNetworkProfile {
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  /** Gateway chain id */
+  gatewayChainId: number;
+  /** Default JSON-RPC endpoint of the host chain (used by the Node.js path) */
+  rpcUrl: string;
+  relayerUrl: string;
+  /** ACL_CONTRACT_ADDRESS (host chain) */
+  aclContractAddress: string;
+  /** KMS_VERIFIER_CONTRACT_ADDRESS (host chain) */
+  kmsContractAddress: string;
+  /** INPUT_VERIFIER_CONTRACT_ADDRESS (host chain) */
+  inputVerifierContractAddress: string;
+  /** DECRYPTION_ADDRESS (gateway chain) */
+  verifyingContractAddressDecryption: string;
+  /** INPUT_VERIFICATION_ADDRESS (gateway chain) */
+  verifyingContractAddressInputVerification: string;
+  /** Deployment block of application contracts by address, so indexers can start there without an archive-node search */
+  deploymentBlocks?: Record<string, number>;
+}
+
+/**
+ * Built-in profiles. `sepolia` mirrors the relayer SDK's SepoliaConfig,
+ * `hardhat` matches the @fhevm/hardhat-plugin local deployment (chainId 31337).
+ */
+export const NETWORK_PROFILES = {
+  sepolia: {
+    name: 'sepolia',
+    chainId: 11155111,
+    gatewayChainId: 10901,
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    relayerUrl: 'https://relayer.testnet.zama.org',
+    aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+    inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+    verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+    verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  },
+  hardhat: {
+    name: 'hardhat',
+    chainId: 31337,
+    gatewayChainId: 55815,
+    rpcUrl: 'http://127.0.0.1:8545',
+    relayerUrl: 'http://127.0.0.1:3000',
+    aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+    inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+    verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+    verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  },
+} satisfies Record<string, FhevmNetworkProfile>;
+
+export type FhevmNetworkName = keyof typeof NETWORK_PROFILES;
+
+export const DEFAULT_NETWORK: FhevmNetworkName = 'sepolia';
+
+const ADDRESS_FIELDS = [
+  'aclContractAddress',
+  'kmsContractAddress',
+  'inputVerifierContractAddress',
+  'verifyingContractAddressDecryption',
+  'verifyingContractAddressInputVerification',
+] as const;
+
+/**
+ * Resolve a built-in profile name or validate a custom profile (e.g. a staging chain)
+ */
+export function resolveNetworkProfile(network: FhevmNetworkName | FhevmNetworkProfile = DEFAULT_NETWORK): FhevmNetworkProfile {
+  if (typeof network === 'string') {
+    const profile = NETWORK_PROFILES[network];
+    if (!profile) {
+      throw new Error(`Unknown FHEVM network "${network}". Available: ${Object.keys(NETWORK_PROFILES).join(', ')}`);
+    }
+    return profile;
+  }
+
+  if (!Number.isInteger(network.chainId) || network.chainId <= 0) {
+    throw new Error(`Invalid chainId in network profile "${network.name}"`);
+  }
+  if (!Number.isInteger(network.gatewayChainId) || network.gatewayChainId <= 0) {
+    throw new Error(`Invalid gatewayChainId in network profile "${network.name}"`);
+  }
+  for (const field of ADDRESS_FIELDS) {
+    if (!ethers.isAddress(network[field])) {
+      throw new Error(`Invalid ${field} in network profile "${network.name}": ${network[field]}`);
+    }
+  }
+  if (!network.relayerUrl) {
+    throw new Error(`Missing relayerUrl in network profile "${network.name}"`);
+  }
+  for (const [address, block] of Object.entries(network.deploymentBlocks ?? {})) {
+    if (!ethers.isAddress(address) || !Number.isSafeInteger(block) || block < 0) {
+      throw new Error(`Invalid deploymentBlocks entry in network profile "${network.name}": ${address} -> ${block}`);
+    }
+  }
+  return network;
+}
+
+/**
+ * Deployment block recorded in the profile for a contract, if any
+ */
+export function getDeploymentBlock(profile: FhevmNetworkProfile, address: string): number | undefined {
+  const target = address.toLowerCase();
+  for (const [deployed, block] of Object.entries(profile.deploymentBlocks ?? {})) {
+    if (deployed.toLowerCase() === target) return block;
+  }
+  return undefined;
+}
+
+/**
+ * Build the config object expected by the relayer SDK's createInstance()
+ */
+export function toRelayerConfig(profile: FhevmNetworkProfile, network: ethers.Eip1193Provider | string) {
+  return {
+    aclContractAddress: profile.aclContractAddress,
+    kmsContractAddress: profile.kmsContractAddress,
+    inputVerifierContractAddress: profile.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: profile.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: profile.verifyingContractAddressInputVerification,
+    chainId: profile.chainId,
+    gatewayChainId: profile.gatewayChainId,
+    relayerUrl: profile.relayerUrl,
+    network,
+  };
+}
+
+/**
+ * Throw if the chain reported by a wallet/provider is not the profile's host chain
+ */
+export function assertChainMatches(actualChainId: number | bigint | string, profile: FhevmNetworkProfile) {
+  const actual = Number(typeof actualChainId === 'string' ? BigInt(actualChainId) : actualChainId);
+  if (actual !== profile.chainId) {
+    throw new WrongChainError(profile.chainId, actual, profile.name);
+  }
+}
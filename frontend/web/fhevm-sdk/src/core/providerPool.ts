@@ -0,0 +1,229 @@
+/**
+ * RPC Provider Pool - Universal SDK
+ * Probes configured JSON-RPC endpoints once, scores them by latency and error
+ * rate, and rotates to the next healthy endpoint when one fails
+ */
+
+import { ethers } from 'ethers';
+import { DEFAULT_LOGGER, FhevmLogger } from './logger.js';
+
+export interface ProviderPoolOptions {
+  /** JSON-RPC endpoints, in order of preference */
+  urls: string[];
+  /** Expected chain id; endpoints serving another chain are rejected */
+  chainId: number;
+  /** Timeout of the initial probe and of re-probes. Defaults to 5000 ms */
+  probeTimeoutMs?: number;
+  /** How long a failed endpoint is skipped before it is tried again. Defaults to 30000 ms */
+  cooldownMs?: number;
+  /** Receives endpoint rotation notices. Defaults to warnings and errors on the console */
+  logger?: FhevmLogger;
+}
+
+export interface EndpointHealth {
+  url: string;
+  /** Moving average of request latency, undefined until the endpoint answered once */
+  latencyMs?: number;
+  successes: number;
+  failures: number;
+  /** failures / (successes + failures) */
+  errorRate: number;
+  lastError?: string;
+  /** Date.now() of the last failure */
+  lastFailureAt?: number;
+}
+
+const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+const DEFAULT_COOLDOWN_MS = 30000;
+/** Weight of the newest sample in the latency moving average */
+const LATENCY_ALPHA = 0.3;
+/** Penalty applied to an endpoint's latency per unit of error rate */
+const ERROR_RATE_PENALTY = 4;
+
+const NETWORK_ERROR_CODES = new Set(['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT', 'UNKNOWN_ERROR']);
+const NETWORK_ERROR_PATTERN = /timeout|Failed to fetch|NetworkError|fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|429|502|503|504|rate.?limit|too many requests/i;
+
+/**
+ * Whether an error means the endpoint (not the call) failed and another endpoint may succeed
+ */
+export function isEndpointError(error: any): boolean {
+  if (NETWORK_ERROR_CODES.has(error?.code)) return true;
+  return NETWORK_ERROR_PATTERN.test(`${error?.message ?? ''} ${error?.shortMessage ?? ''}`);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timeout after ${ms} ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+interface Endpoint {
+  health: EndpointHealth;
+  provider: ethers.JsonRpcProvider;
+}
+
+export class ProviderPool {
+  private endpoints: Endpoint[];
+  private network: ethers.Network;
+  private probeTimeoutMs: number;
+  private cooldownMs: number;
+  private logger: FhevmLogger;
+  private current: Endpoint | null = null;
+  private probing: Promise<void> | null = null;
+
+  constructor(options: ProviderPoolOptions) {
+    const urls = [...new Set(options.urls.filter(Boolean))];
+    if (urls.length === 0) throw new Error('ProviderPool needs at least one RPC URL');
+
+    this.network = ethers.Network.from(options.chainId);
+    this.probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.logger = options.logger ?? DEFAULT_LOGGER;
+    this.endpoints = urls.map((url) => ({
+      health: { url, successes: 0, failures: 0, errorRate: 0 },
+      // Static network: no background eth_chainId polling, the probe checks the chain instead
+      provider: new ethers.JsonRpcProvider(url, this.network, { staticNetwork: this.network }),
+    }));
+  }
+
+  /**
+   * Healthiest provider. The first call probes every endpoint; later calls return the cached one.
+   */
+  async getProvider(): Promise<ethers.JsonRpcProvider> {
+    if (this.current && !this.inCooldown(this.current)) return this.current.provider;
+
+    if (this.endpoints.every((e) => e.health.successes === 0 && e.health.failures === 0) || this.allInCooldown()) {
+      await this.probe();
+    }
+
+    const best = this.rank()[0];
+    if (!best || this.inCooldown(best)) {
+      throw new Error(`All RPC providers failed (${this.endpoints.map((e) => e.health.url).join(', ')})`);
+    }
+    this.current = best;
+    return best.provider;
+  }
+
+  /**
+   * Run `fn` against the pool, rotating to the next endpoint on network-level failures.
+   * Contract reverts and other call errors are rethrown without rotating.
+   */
+  async request<T>(fn: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt < this.endpoints.length; attempt++) {
+      const provider = await this.getProvider();
+      const endpoint = this.current!;
+      const started = Date.now();
+      try {
+        const result = await fn(provider);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return result;
+      } catch (error) {
+        if (!isEndpointError(error)) throw error;
+        lastError = error;
+        this.recordFailure(endpoint, error);
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Mark an endpoint as failed (e.g. after an error from a provider handed out by getProvider())
+   */
+  reportFailure(provider: ethers.JsonRpcProvider, error: unknown) {
+    const endpoint = this.endpoints.find((e) => e.provider === provider);
+    if (endpoint) this.recordFailure(endpoint, error);
+  }
+
+  getHealth(): EndpointHealth[] {
+    return this.rank().map((e) => ({ ...e.health }));
+  }
+
+  /**
+   * Probe every endpoint in parallel (concurrent callers share one probe)
+   */
+  private probe(): Promise<void> {
+    if (!this.probing) {
+      this.probing = Promise.all(this.endpoints.map((endpoint) => this.probeEndpoint(endpoint)))
+        .then(() => undefined)
+        .finally(() => {
+          this.probing = null;
+        });
+    }
+    return this.probing;
+  }
+
+  private async probeEndpoint(endpoint: Endpoint) {
+    const started = Date.now();
+    try {
+      const chainId = await withTimeout(endpoint.provider.send('eth_chainId', []), this.probeTimeoutMs, 'RPC probe');
+      if (BigInt(chainId) !== this.network.chainId) {
+        throw new Error(`Endpoint serves chain ${BigInt(chainId)}, expected ${this.network.chainId}`);
+      }
+      this.recordSuccess(endpoint, Date.now() - started);
+    } catch (error) {
+      this.recordFailure(endpoint, error);
+    }
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number) {
+    const health = endpoint.health;
+    health.successes++;
+    health.latencyMs = health.latencyMs === undefined ? latencyMs : health.latencyMs + LATENCY_ALPHA * (latencyMs - health.latencyMs);
+    health.errorRate = health.failures / (health.successes + health.failures);
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown) {
+    const health = endpoint.health;
+    health.failures++;
+    health.errorRate = health.failures / (health.successes + health.failures);
+    health.lastError = (error as any)?.message ?? String(error);
+    health.lastFailureAt = Date.now();
+    if (this.current === endpoint) {
+      this.logger.warn(`⚠️ RPC endpoint ${health.url} failed, rotating:`, health.lastError);
+      this.current = null;
+    }
+  }
+
+  private inCooldown(endpoint: Endpoint): boolean {
+    const { lastFailureAt } = endpoint.health;
+    return lastFailureAt !== undefined && Date.now() - lastFailureAt < this.cooldownMs;
+  }
+
+  private allInCooldown(): boolean {
+    return this.endpoints.every((e) => this.inCooldown(e));
+  }
+
+  /**
+   * Endpoints outside cooldown first, then by penalized latency; config order breaks ties
+   */
+  private rank(): Endpoint[] {
+    const score = (e: Endpoint) => (e.health.latencyMs ?? Number.MAX_SAFE_INTEGER) * (1 + ERROR_RATE_PENALTY * e.health.errorRate);
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort(
+        (a, b) =>
+          Number(this.inCooldown(a.endpoint)) - Number(this.inCooldown(b.endpoint)) ||
+          score(a.endpoint) - score(b.endpoint) ||
+          a.index - b.index
+      )
+      .map(({ endpoint }) => endpoint);
+  }
+}
+
+const sharedPools = new Map<string, ProviderPool>();
+
+/**
+ * One pool per chain + endpoint list, so every consumer in the process shares probe results and health. The first caller's timeouts and logger apply
+ */
+export function getSharedProviderPool(options: ProviderPoolOptions): ProviderPool {
+  const key = `${options.chainId}:${options.urls.join(',')}`;
+  let pool = sharedPools.get(key);
+  if (!pool) {
+    pool = new ProviderPool(options);
+    sharedPools.set(key, pool);
+  }
+  return pool;
+}
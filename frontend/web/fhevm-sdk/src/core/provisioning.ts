@@ -0,0 +1,309 @@
+/**
+ * Batch Device Provisioning - Universal SDK
+ * Parses CSV/JSON device manifests, encrypts device IDs in shared encrypted inputs
+ * and registers them on UniversalFHEAdapter with bounded concurrency
+ */
+
+import { ethers } from 'ethers';
+import { FhevmClient } from './client.js';
+import { DeviceMetadata, packDeviceMetadata } from './deviceMetadata.js';
+import { checkUintRange } from './encryptedInput.js';
+import { toFhevmError } from './errors.js';
+import { createInputBuilder } from './fhevm.js';
+import { mapWithConcurrency } from './multicall.js';
+import { UNIVERSAL_ADAPTER_ABI } from './universalAdapter.js';
+
+export type ManifestFormat = 'csv' | 'json';
+
+export interface ProvisioningRow {
+  /** 1-based CSV line (header included) or JSON array position */
+  line: number;
+  /** Plaintext device ID, encrypted as euint32 */
+  deviceId: number;
+  businessId: string;
+  name: string;
+  metadata: DeviceMetadata;
+}
+
+export interface ManifestRowError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedManifest {
+  rows: ProvisioningRow[];
+  errors: ManifestRowError[];
+}
+
+export type ProvisioningStatus = 'queued' | 'encrypting' | 'submitting' | 'submitted' | 'confirmed' | 'failed';
+
+export interface ProvisioningResult {
+  line: number;
+  deviceId: number;
+  businessId: string;
+  name: string;
+  status: ProvisioningStatus;
+  txHash?: string;
+  blockNumber?: number;
+  error?: string;
+}
+
+export interface DeviceProvisionerOptions {
+  /** FHEVM client used for encryption; defaults to the one set up by initializeFheInstance() */
+  client?: FhevmClient;
+  /** Device IDs per encrypted input (one relayer call and proof each). Defaults to 16, at most 64 */
+  chunkSize?: number;
+  /** Transactions in flight at once. Defaults to 4 */
+  concurrency?: number;
+}
+
+export type ProvisioningProgressListener = (result: ProvisioningResult) => void;
+
+/** Columns / keys of a manifest entry; businessId is optional and battery defaults to 100 */
+export const MANIFEST_FIELDS = ['deviceId', 'name', 'deviceType', 'location', 'battery', 'businessId'] as const;
+
+/** An encrypted input holds at most 2048 bits, i.e. 64 euint32 values */
+const MAX_CHUNK_SIZE = 64;
+const DEFAULT_CHUNK_SIZE = 16;
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and CRLF line endings
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function manifestEntries(text: string, format: ManifestFormat): { line: number; entry: Record<string, unknown> }[] {
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.devices;
+    if (!Array.isArray(list)) throw new TypeError('JSON manifest must be an array of devices or { "devices": [...] }');
+    return list.map((entry, index) => ({ line: index + 1, entry: entry ?? {} }));
+  }
+
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((column) => {
+    const name = column.trim();
+    return MANIFEST_FIELDS.find((field) => field.toLowerCase() === name.toLowerCase()) ?? name;
+  });
+  for (const required of ['deviceId', 'name', 'deviceType', 'location']) {
+    if (!columns.includes(required)) throw new TypeError(`CSV manifest is missing the "${required}" column`);
+  }
+
+  return records
+    .map((record, index) => ({ line: index + 2, record }))
+    .filter(({ record }) => record.some((cell) => cell.trim() !== ''))
+    .map(({ line, record }) => ({
+      line,
+      entry: Object.fromEntries(columns.map((column, i) => [column, record[i]?.trim() ?? ''])),
+    }));
+}
+
+function toRow(line: number, entry: Record<string, unknown>): ProvisioningRow {
+  const rawId = String(entry.deviceId ?? '').trim();
+  if (!/^\d+$/.test(rawId)) throw new TypeError(`deviceId must be a non-negative integer, got "${rawId}"`);
+  const deviceId = Number(checkUintRange('euint32', BigInt(rawId)));
+
+  const name = String(entry.name ?? '').trim();
+  if (!name) throw new TypeError('name is required');
+
+  const rawBattery = entry.battery === undefined || entry.battery === '' ? 100 : Number(entry.battery);
+  const metadata: DeviceMetadata = {
+    deviceType: String(entry.deviceType ?? '').trim() as DeviceMetadata['deviceType'],
+    location: String(entry.location ?? ''),
+    battery: rawBattery,
+  };
+  // Same validation as a single registration
+  packDeviceMetadata(metadata);
+
+  const businessId = String(entry.businessId ?? '').trim() || `device-${deviceId}`;
+  return { line, deviceId, businessId, name, metadata: { ...metadata, location: metadata.location.trim() } };
+}
+
+/**
+ * Parse and validate a manifest. Invalid and duplicate rows are reported in `errors` instead of aborting the import.
+ * The format is detected from the content when not given.
+ */
+export function parseDeviceManifest(text: string, format?: ManifestFormat): ParsedManifest {
+  const detected = format ?? (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+  const rows: ProvisioningRow[] = [];
+  const errors: ManifestRowError[] = [];
+  const seenIds = new Set<number>();
+  const seenBusinessIds = new Set<string>();
+
+  for (const { line, entry } of manifestEntries(text, detected)) {
+    try {
+      const row = toRow(line, entry);
+      if (seenIds.has(row.deviceId)) throw new Error(`Duplicate deviceId ${row.deviceId}`);
+      if (seenBusinessIds.has(row.businessId)) throw new Error(`Duplicate businessId "${row.businessId}"`);
+      seenIds.add(row.deviceId);
+      seenBusinessIds.add(row.businessId);
+      rows.push(row);
+    } catch (error: any) {
+      errors.push({ line, message: error.message });
+    }
+  }
+  return { rows, errors };
+}
+
+/**
+ * Result report for download: one entry per row with its status, transaction hash and error
+ */
+export function toProvisioningReport(results: readonly ProvisioningResult[], format: ManifestFormat = 'csv'): string {
+  if (format === 'json') return JSON.stringify(results, null, 2);
+
+  const columns = ['line', 'deviceId', 'businessId', 'name', 'status', 'txHash', 'blockNumber', 'error'] as const;
+  const lines = results.map((result) => columns.map((column) => csvField(result[column])).join(','));
+  return [columns.join(','), ...lines].join('\n') + '\n';
+}
+
+export class DeviceProvisioner {
+  private contract: ethers.Contract;
+  private signer: ethers.Signer;
+  private client?: FhevmClient;
+  private chunkSize: number;
+  private concurrency: number;
+  /** Next nonce to use; null re-reads the pending nonce from the chain */
+  private nextNonce: number | null = null;
+  /** Serializes nonce assignment + broadcast */
+  private sending: Promise<unknown> = Promise.resolve();
+  readonly address: string;
+
+  constructor(adapterAddress: string, signer: ethers.Signer, options: DeviceProvisionerOptions = {}) {
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new RangeError(`chunkSize must be an integer between 1 and ${MAX_CHUNK_SIZE}, got ${chunkSize}`);
+    }
+    this.address = adapterAddress;
+    this.signer = signer;
+    this.client = options.client;
+    this.chunkSize = chunkSize;
+    this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+    this.contract = new ethers.Contract(adapterAddress, UNIVERSAL_ADAPTER_ABI, signer);
+  }
+
+  /**
+   * Encrypt and register every row. Never throws for a single row: failures are reported
+   * per row through `onProgress` and in the returned results, in manifest order.
+   */
+  async provision(rows: readonly ProvisioningRow[], onProgress?: ProvisioningProgressListener): Promise<ProvisioningResult[]> {
+    const userAddress = await this.signer.getAddress();
+    const results: ProvisioningResult[] = rows.map((row) => ({
+      line: row.line,
+      deviceId: row.deviceId,
+      businessId: row.businessId,
+      name: row.name,
+      status: 'queued',
+    }));
+    const update = (index: number, patch: Partial<ProvisioningResult>) => {
+      results[index] = { ...results[index], ...patch };
+      onProgress?.(results[index]);
+    };
+
+    // Each chunk is encrypted once, when the first of its rows is reached
+    const chunks = new Map<number, Promise<{ handles: string[]; inputProof: string }>>();
+    const encryptChunk = (chunk: number) => {
+      let encrypted = chunks.get(chunk);
+      if (!encrypted) {
+        const chunkRows = rows.slice(chunk * this.chunkSize, (chunk + 1) * this.chunkSize);
+        const input = this.client ? this.client.createInput(this.address, userAddress) : createInputBuilder(this.address, userAddress);
+        for (const row of chunkRows) input.u32(row.deviceId);
+        encrypted = input.encrypt().then(({ handles, inputProof }) => ({ handles: [...handles], inputProof }));
+        chunks.set(chunk, encrypted);
+      }
+      return encrypted;
+    };
+
+    await mapWithConcurrency(rows, this.concurrency, async (row, index) => {
+      try {
+        update(index, { status: 'encrypting' });
+        const { handles, inputProof } = await encryptChunk(Math.floor(index / this.chunkSize));
+        const packed = packDeviceMetadata(row.metadata);
+
+        update(index, { status: 'submitting' });
+        const tx = await this.send([
+          row.businessId,
+          row.name,
+          handles[index % this.chunkSize],
+          inputProof,
+          packed.publicValue1,
+          packed.publicValue2,
+          packed.description,
+        ]);
+        update(index, { status: 'submitted', txHash: tx.hash });
+
+        const receipt = await tx.wait();
+        if (!receipt) throw new Error('Transaction receipt is null');
+        update(index, { status: 'confirmed', blockNumber: receipt.blockNumber });
+      } catch (error) {
+        update(index, { status: 'failed', error: toFhevmError(error, this.contract.interface).message });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Broadcast with explicit, sequential nonces so concurrent rows never collide.
+   * A failed broadcast does not consume its nonce; the pending nonce is re-read instead.
+   */
+  private send(args: unknown[]): Promise<ethers.ContractTransactionResponse> {
+    const send = this.sending
+      .catch(() => undefined)
+      .then(async () => {
+        const nonce = (this.nextNonce ??= await this.signer.getNonce('pending'));
+        try {
+          const tx: ethers.ContractTransactionResponse = await this.contract.createBusinessData(...args, { nonce });
+          this.nextNonce = nonce + 1;
+          return tx;
+        } catch (error) {
+          this.nextNonce = null;
+          throw error;
+        }
+      });
+    this.sending = send;
+    return send;
+  }
+}
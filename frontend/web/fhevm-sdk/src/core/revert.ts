@@ -0,0 +1,87 @@
+/**
+ * Revert Decoding - Universal SDK
+ * Extracts and decodes revert data (custom errors, Error(string), Panic(uint256))
+ */
+
+import { ethers } from 'ethers';
+
+export interface DecodedRevert {
+  kind: 'custom' | 'reason' | 'panic' | 'unknown';
+  /** Custom error name, or 'Error' / 'Panic' for the built-in payloads */
+  errorName?: string;
+  args: unknown[];
+  /** Error(string) message */
+  reason?: string;
+  selector?: string;
+  data: string;
+}
+
+/**
+ * Custom errors declared by the FHEVM contracts in this repo (UniversalFHEAdapter / FHE library / KMSVerifier)
+ */
+export const FHEVM_CUSTOM_ERRORS = [
+  'error InvalidKMSSignatures()',
+  'error ZamaProtocolUnsupported()',
+  // Raised by the KMSVerifier itself when a proof's signatures recover to an unregistered signer
+  'error KMSInvalidSigner(address invalidSigner)',
+];
+
+const fhevmErrorsInterface = new ethers.Interface(FHEVM_CUSTOM_ERRORS);
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+/**
+ * Find the revert payload in an ethers / EIP-1193 error, wherever the provider put it
+ */
+export function extractRevertData(error: any): string | undefined {
+  const candidates = [
+    error?.data,
+    error?.data?.data,
+    error?.error?.data,
+    error?.error?.data?.data,
+    error?.info?.error?.data,
+    error?.info?.error?.data?.data,
+    error?.cause?.data,
+  ];
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && ethers.isHexString(candidate) && ethers.dataLength(candidate) >= 4) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode revert data against a contract interface, falling back to the FHEVM custom errors
+ */
+export function decodeRevertData(data: string, contractInterface?: ethers.Interface): DecodedRevert {
+  const selector = ethers.dataSlice(data, 0, 4);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = coder.decode(['string'], ethers.dataSlice(data, 4));
+      return { kind: 'reason', errorName: 'Error', args: [reason], reason, selector, data };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], ethers.dataSlice(data, 4));
+      return { kind: 'panic', errorName: 'Panic', args: [code], selector, data };
+    }
+  } catch {
+    return { kind: 'unknown', args: [], selector, data };
+  }
+
+  for (const iface of [contractInterface, fhevmErrorsInterface]) {
+    if (!iface) continue;
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return { kind: 'custom', errorName: parsed.name, args: [...parsed.args], selector, data };
+      }
+    } catch {
+      // Selector matched but arguments did not decode; try the next interface
+    }
+  }
+
+  return { kind: 'unknown', args: [], selector, data };
+}
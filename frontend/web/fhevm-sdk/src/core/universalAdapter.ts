@@ -0,0 +1,142 @@
+/**
+ * UniversalFHEAdapter - Universal SDK
+ * ABI and record types of the business-data adapter used by the dashboard
+ */
+
+import { ethers } from 'ethers';
+import { MulticallOptions, ReadCall, batchRead } from './multicall.js';
+
+/**
+ * UniversalFHEAdapter ABI (externalEuint32 / euint32 are encoded as bytes32)
+ */
+export const UNIVERSAL_ADAPTER_ABI = [
+  'function createBusinessData(string businessId, string name, bytes32 encryptedValue, bytes inputProof, uint256 publicValue1, uint256 publicValue2, string description)',
+  'function getAllBusinessIds() view returns (string[])',
+  'function getBusinessData(string businessId) view returns (string name, uint256 publicValue1, uint256 publicValue2, string description, address creator, uint256 timestamp, bool isVerified, uint32 decryptedValue)',
+  'function getEncryptedValue(string businessId) view returns (bytes32)',
+  'function verifyDecryption(string businessId, bytes abiEncodedClearValue, bytes decryptionProof)',
+  'function isAvailable() pure returns (bool)',
+  'event BusinessDataCreated(string indexed businessId, address indexed creator)',
+  'event DecryptionVerified(string indexed businessId, uint32 decryptedValue)',
+  'error InvalidKMSSignatures()',
+  'error ZamaProtocolUnsupported()',
+];
+
+export interface BusinessData {
+  businessId: string;
+  name: string;
+  publicValue1: bigint;
+  publicValue2: bigint;
+  description: string;
+  creator: string;
+  /** Unix seconds */
+  timestamp: bigint;
+  isVerified: boolean;
+  decryptedValue: bigint;
+}
+
+/**
+ * Topic of an indexed `string businessId` event argument (logs only carry the hash)
+ */
+export function businessIdTopic(businessId: string): string {
+  return ethers.id(businessId);
+}
+
+/**
+ * Convert a getBusinessData() result to a BusinessData record
+ */
+export function toBusinessData(businessId: string, result: ethers.Result | any[]): BusinessData {
+  const [name, publicValue1, publicValue2, description, creator, timestamp, isVerified, decryptedValue] = result;
+  return {
+    businessId,
+    name,
+    publicValue1: BigInt(publicValue1),
+    publicValue2: BigInt(publicValue2),
+    description,
+    creator,
+    timestamp: BigInt(timestamp),
+    isVerified,
+    decryptedValue: BigInt(decryptedValue),
+  };
+}
+
+export interface BatchReadResult<T> {
+  /** Keyed by businessId */
+  values: Map<string, T>;
+  /** Per-ID failures (typed revert / network errors); other IDs are unaffected */
+  errors: Map<string, Error>;
+}
+
+const adapterInterface = new ethers.Interface(UNIVERSAL_ADAPTER_ABI);
+
+/**
+ * Batched UniversalFHEAdapter reads: N records in ceil(N / batchSize) eth_calls via Multicall3
+ */
+export class UniversalAdapterReader {
+  private provider: ethers.Provider;
+  private options: MulticallOptions;
+  readonly address: string;
+
+  constructor(provider: ethers.Provider, address: string, options: MulticallOptions = {}) {
+    this.provider = provider;
+    this.address = address;
+    this.options = options;
+  }
+
+  async getAllBusinessIds(): Promise<string[]> {
+    const [result] = await batchRead(this.provider, [this.call('getAllBusinessIds')], this.options);
+    if (!result.success) throw result.error;
+    return [...result.value[0]];
+  }
+
+  async getBusinessData(businessIds: readonly string[]): Promise<BatchReadResult<BusinessData>> {
+    return this.readEach(businessIds, 'getBusinessData', (id, value) => toBusinessData(id, value));
+  }
+
+  /**
+   * euint32 handles of the encrypted values, for decryption
+   */
+  async getEncryptedValues(businessIds: readonly string[]): Promise<BatchReadResult<string>> {
+    return this.readEach(businessIds, 'getEncryptedValue', (_id, value) => value[0] as string);
+  }
+
+  /**
+   * Every record with its encrypted value handle, in a single batched pass
+   */
+  async getAll(): Promise<BatchReadResult<BusinessData & { encryptedValue: string }>> {
+    const ids = await this.getAllBusinessIds();
+    const calls = ids.flatMap((id) => [this.call('getBusinessData', [id]), this.call('getEncryptedValue', [id])]);
+    const results = await batchRead(this.provider, calls, this.options);
+
+    const values = new Map<string, BusinessData & { encryptedValue: string }>();
+    const errors = new Map<string, Error>();
+    ids.forEach((id, i) => {
+      const data = results[2 * i];
+      const handle = results[2 * i + 1];
+      if (!data.success) errors.set(id, data.error);
+      else if (!handle.success) errors.set(id, handle.error);
+      else values.set(id, { ...toBusinessData(id, data.value), encryptedValue: handle.value[0] });
+    });
+    return { values, errors };
+  }
+
+  private async readEach<T>(
+    businessIds: readonly string[],
+    functionName: string,
+    map: (id: string, value: ethers.Result) => T
+  ): Promise<BatchReadResult<T>> {
+    const results = await batchRead(this.provider, businessIds.map((id) => this.call(functionName, [id])), this.options);
+    const values = new Map<string, T>();
+    const errors = new Map<string, Error>();
+    businessIds.forEach((id, i) => {
+      const result = results[i];
+      if (result.success) values.set(id, map(id, result.value));
+      else errors.set(id, result.error);
+    });
+    return { values, errors };
+  }
+
+  private call(functionName: string, args: unknown[] = []): ReadCall {
+    return { target: this.address, contractInterface: adapterInterface, functionName, args };
+  }
+}
@@ -8,4 +8,6 @@ export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
 export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { createHeartbeatServer, startHeartbeatService } from './adapters/heartbeatServer.js';
+export type { HeartbeatServer, HeartbeatServerOptions, StartHeartbeatServiceOptions } from './adapters/heartbeatServer.js';
 
@@ -1,14 +1,33 @@
 // Global type declarations for the SDK
 
+import type { Eip1193Provider } from 'ethers';
+import type { createInstance, initSDK } from '@zama-fhe/relayer-sdk/web';
+
+/** EIP-1193 provider injected by the wallet, plus the event API and flags wallets add to it */
+export interface InjectedEthereumProvider extends Eip1193Provider {
+  on(event: string, callback: (...args: any[]) => void): void;
+  removeListener(event: string, callback: (...args: any[]) => void): void;
+  isMetaMask?: boolean;
+  isOkxWallet?: boolean;
+  isTrust?: boolean;
+  isCoinbaseWallet?: boolean;
+  isConnected?: () => boolean;
+  selectedAddress?: string;
+  chainId?: string;
+}
+
+/** UMD build of the relayer SDK, exposed by its CDN script tag */
+export interface RelayerSdkGlobal {
+  initSDK: typeof initSDK;
+  createInstance: typeof createInstance;
+}
+
 declare global {
   interface Window {
-    ethereum?: {
-      request: (args: { method: string; params?: any[] }) => Promise<any>;
-      on: (event: string, callback: (...args: any[]) => void) => void;
-      removeListener: (event: string, callback: (...args: any[]) => void) => void;
-      isMetaMask?: boolean;
-      isConnected?: () => boolean;
-    };
+    ethereum?: InjectedEthereumProvider;
+    /** Set by the relayer SDK script; older builds use the lowercase name */
+    RelayerSDK?: RelayerSdkGlobal;
+    relayerSDK?: RelayerSdkGlobal;
   }
 }
 
@@ -0,0 +1,89 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { encodeClearValues, FHE_CLEARTEXT_ABI_TYPES, toClearValue } from '../src/core/clearValues.js';
+import { FheUintType, FHE_UINT_BITS } from '../src/core/encryptedInput.js';
+import { FhevmEncodingError } from '../src/core/errors.js';
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+const UINT_TYPES = Object.keys(FHE_UINT_BITS) as FheUintType[];
+
+describe('toClearValue', () => {
+  it.each([
+    [true, true],
+    [false, false],
+    [1n, true],
+    [0n, false],
+    [1, true],
+    ['0x01', true],
+    ['0', false],
+  ])('reads ebool %s as %s', (raw, expected) => {
+    expect(toClearValue('ebool', raw)).toBe(expected);
+  });
+
+  it.each([2n, -1n])('rejects ebool word %s', (raw) => {
+    expect(() => toClearValue('ebool', raw)).toThrow('ebool value must be 0 or 1');
+  });
+
+  it.each([
+    ['a checksummed address', ADDRESS],
+    ['a lower-case address', ADDRESS.toLowerCase()],
+    ['a uint160 word', BigInt(ADDRESS)],
+    ['a uint256 hex word', ethers.zeroPadValue(ADDRESS, 32)],
+  ])('reads eaddress from %s', (_label, raw) => {
+    expect(toClearValue('eaddress', raw)).toBe(ADDRESS);
+  });
+
+  it('rejects an eaddress word wider than 20 bytes', () => {
+    expect(() => toClearValue('eaddress', 1n << 160n)).toThrow(FhevmEncodingError);
+  });
+
+  it.each(UINT_TYPES)('accepts the full range of %s', (type) => {
+    const max = (1n << BigInt(FHE_UINT_BITS[type])) - 1n;
+
+    expect(toClearValue(type, 0)).toBe(0n);
+    expect(toClearValue(type, max)).toBe(max);
+    expect(toClearValue(type, max.toString())).toBe(max);
+  });
+
+  it.each(UINT_TYPES)('rejects %s values out of range', (type) => {
+    const max = (1n << BigInt(FHE_UINT_BITS[type])) - 1n;
+
+    expect(() => toClearValue(type, max + 1n)).toThrow(`${type} value ${max + 1n} is out of range`);
+    expect(() => toClearValue(type, -1n)).toThrow('out of range');
+  });
+
+  it.each(UINT_TYPES)('rejects a boolean %s value', (type) => {
+    expect(() => toClearValue(type, true)).toThrow(`${type} value must be an integer, got a boolean`);
+  });
+
+  it('names the handle in the error', () => {
+    expect(() => toClearValue('euint8', 256n, '0xhandle')).toThrow('Invalid euint8 clear value for handle 0xhandle');
+  });
+});
+
+describe('encodeClearValues', () => {
+  it.each(Object.entries(FHE_CLEARTEXT_ABI_TYPES))('encodes %s as %s', (type, abiType) => {
+    const value = type === 'ebool' ? true : type === 'eaddress' ? ADDRESS : 42n;
+
+    expect(encodeClearValues([type as keyof typeof FHE_CLEARTEXT_ABI_TYPES], [value])).toBe(
+      coder.encode([abiType], [value])
+    );
+  });
+
+  it('re-encodes relayer words for ebool and eaddress as bool and address', () => {
+    const encoded = encodeClearValues(['ebool', 'eaddress', 'euint64'], [1n, BigInt(ADDRESS), 7n]);
+
+    expect(encoded).toBe(coder.encode(['bool', 'address', 'uint64'], [true, ADDRESS, 7n]));
+    expect(coder.decode(['bool', 'address', 'uint64'], encoded).toArray()).toEqual([true, ADDRESS, 7n]);
+  });
+
+  it('rejects a value out of range for its declared type', () => {
+    expect(() => encodeClearValues(['euint8'], [256n])).toThrow(FhevmEncodingError);
+  });
+
+  it('rejects a count mismatch between types and values', () => {
+    expect(() => encodeClearValues(['euint8', 'euint8'], [1n])).toThrow('Expected 2 clear values, got 1');
+  });
+});
@@ -0,0 +1,78 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { FhevmContract, FhevmContractOptions } from '../src/core/contracts.js';
+
+const ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const HUMAN_READABLE_ABI = [
+  'function createBusinessData(string businessId, bytes32 encryptedValue, bytes inputProof, uint256 publicValue)',
+  'function registerDevice(bytes32 encryptedId, bytes registrationProof, uint256 publicKey)',
+  'function verifyDecryption(string businessId, bytes abiEncodedClearValue, bytes decryptionProof)',
+];
+
+const JSON_ABI = [
+  {
+    type: 'function',
+    name: 'registerDevice',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'encryptedId', type: 'bytes32', internalType: 'externalEuint64' },
+      { name: 'registrationProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'publicKey', type: 'uint256', internalType: 'uint256' },
+    ],
+    outputs: [],
+  },
+];
+
+function fhevmContract(options?: FhevmContractOptions) {
+  return new FhevmContract(new ethers.Contract(ADDRESS, HUMAN_READABLE_ABI), ADDRESS, undefined, options);
+}
+
+describe('FhevmContract.getEncryptedLayout', () => {
+  it('does not guess encrypted slots from a parameter named inputProof', () => {
+    expect(() => fhevmContract().getEncryptedLayout('createBusinessData')).toThrow(
+      'Cannot tell which parameters of createBusinessData are encrypted'
+    );
+  });
+
+  it('reads handle types from internalType', () => {
+    const layout = fhevmContract({ abi: JSON_ABI }).getEncryptedLayout('registerDevice');
+
+    expect(layout?.proofIndex).toBe(1);
+    expect(layout?.handles).toEqual([{ index: 0, name: 'encryptedId', type: 'euint64' }]);
+  });
+
+  it('reads internalType from a JSON string ABI', () => {
+    const layout = fhevmContract({ abi: JSON.stringify(JSON_ABI) }).getEncryptedLayout('registerDevice');
+
+    expect(layout?.handles).toEqual([{ index: 0, name: 'encryptedId', type: 'euint64' }]);
+  });
+
+  it('returns null for a function without bytes32 parameters', () => {
+    expect(fhevmContract().getEncryptedLayout('verifyDecryption')).toBeNull();
+  });
+
+  it('throws for bytes32 and bytes parameters it cannot resolve', () => {
+    expect(() => fhevmContract().getEncryptedLayout('registerDevice')).toThrow(
+      'Cannot tell which parameters of registerDevice are encrypted'
+    );
+  });
+
+  it('uses an explicit layout, or none when it is null', () => {
+    const layout = fhevmContract({
+      layouts: { registerDevice: { handles: { encryptedId: 'euint16' }, proof: 'registrationProof' } },
+    }).getEncryptedLayout('registerDevice');
+    expect(layout?.proofIndex).toBe(1);
+    expect(layout?.handles).toEqual([{ index: 0, name: 'encryptedId', type: 'euint16' }]);
+
+    expect(fhevmContract({ layouts: { registerDevice: null } }).getEncryptedLayout('registerDevice')).toBeNull();
+  });
+
+  it('rejects an explicit layout that does not match the parameters', () => {
+    const contract = fhevmContract({
+      layouts: { registerDevice: { handles: { publicKey: 'euint32' }, proof: 'registrationProof' } },
+    });
+
+    expect(() => contract.getEncryptedLayout('registerDevice')).toThrow('must be a bytes32 parameter');
+  });
+});
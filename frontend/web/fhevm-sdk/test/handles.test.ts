@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { FheInputType } from '../src/core/encryptedInput.js';
+import { InvalidHandleError } from '../src/core/errors.js';
+import { FHE_TYPE_CODES, getHandleTypes, isHandle, parseHandle } from '../src/core/handles.js';
+
+const HASH = '0x' + 'ab'.repeat(21);
+const SEPOLIA = 11155111;
+
+/**
+ * hash (21 bytes) | index (1) | chain id (8) | FHE type (1) | version (1)
+ */
+function makeHandle({ index = 0, chainId = SEPOLIA, typeCode = 4, version = 0 } = {}): string {
+  return ethers.concat([
+    HASH,
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(typeCode, 1),
+    ethers.toBeHex(version, 1),
+  ]);
+}
+
+describe('parseHandle', () => {
+  it.each(Object.entries(FHE_TYPE_CODES) as [FheInputType, number][])('reads %s from type code %i', (type, typeCode) => {
+    const handle = makeHandle({ typeCode, index: 3 });
+
+    expect(parseHandle(handle)).toEqual({ handle, type, chainId: SEPOLIA, index: 3, version: 0 });
+  });
+
+  it.each([1, 9, 0xfe])('rejects unsupported type code %i', (typeCode) => {
+    expect(() => parseHandle(makeHandle({ typeCode }))).toThrow(`Unsupported FHE type code ${typeCode}`);
+  });
+
+  it.each([1, 0xff])('rejects handle version %i', (version) => {
+    expect(() => parseHandle(makeHandle({ version }))).toThrow(`Unsupported handle version ${version}`);
+  });
+
+  it('reports index 0xff, a value computed on-chain, as null', () => {
+    expect(parseHandle(makeHandle({ index: 0xff })).index).toBeNull();
+    expect(parseHandle(makeHandle({ index: 0xfe })).index).toBe(0xfe);
+  });
+
+  it.each([
+    ['zero', 0],
+    ['above Number.MAX_SAFE_INTEGER', Number.MAX_SAFE_INTEGER + 1],
+  ])('rejects a %s chain id', (_label, chainId) => {
+    const handle = ethers.concat([HASH, '0x00', ethers.toBeHex(BigInt(chainId), 8), '0x04', '0x00']);
+
+    expect(() => parseHandle(handle)).toThrow('Invalid chain id');
+  });
+
+  it('checks the chain id against the expected one', () => {
+    const handle = makeHandle({ chainId: 31337 });
+
+    expect(parseHandle(handle, 31337).chainId).toBe(31337);
+    expect(() => parseHandle(handle, SEPOLIA)).toThrow(`belongs to chain 31337, not ${SEPOLIA}`);
+  });
+
+  it.each([
+    ['too short', '0x' + '00'.repeat(31)],
+    ['too long', '0x' + '00'.repeat(33)],
+    ['not hex', 'handle'],
+  ])('rejects a value that is %s', (_label, value) => {
+    expect(() => parseHandle(value)).toThrow(InvalidHandleError);
+  });
+
+  it('accepts bytes and lower-cases hex input', () => {
+    const handle = makeHandle();
+
+    expect(parseHandle(ethers.getBytes(handle)).handle).toBe(handle);
+    expect(parseHandle(handle.toUpperCase().replace('0X', '0x')).handle).toBe(handle);
+  });
+
+  it('carries the offending handle on the error', () => {
+    const handle = makeHandle({ version: 1 });
+    let error: unknown;
+    try {
+      parseHandle(handle);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(InvalidHandleError);
+    expect((error as InvalidHandleError).handle).toBe(handle);
+  });
+});
+
+describe('isHandle', () => {
+  it('is true only for handles parseHandle accepts', () => {
+    expect(isHandle(makeHandle())).toBe(true);
+    expect(isHandle(makeHandle(), 31337)).toBe(false);
+    expect(isHandle(makeHandle({ version: 1 }))).toBe(false);
+    expect(isHandle(42)).toBe(false);
+  });
+});
+
+describe('getHandleTypes', () => {
+  it('returns the type of each handle in order', () => {
+    const handles = [FHE_TYPE_CODES.ebool, FHE_TYPE_CODES.eaddress, FHE_TYPE_CODES.euint256].map((typeCode) =>
+      makeHandle({ typeCode })
+    );
+
+    expect(getHandleTypes(handles)).toEqual(['ebool', 'eaddress', 'euint256']);
+  });
+});
@@ -0,0 +1,231 @@
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { createFhevmClient } from '../src/core/client.js';
+import { MemorySessionStore } from '../src/core/decryptionSession.js';
+import { AclDeniedError, FhevmError } from '../src/core/errors.js';
+import { MockRelayer } from '../src/core/mockRelayer.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+async function setup(acl: 'open' | 'strict' = 'open') {
+  const mockRelayer = new MockRelayer({ acl });
+  const user = ethers.Wallet.createRandom();
+  const client = await createFhevmClient({
+    mockRelayer,
+    network: mockRelayer.profile,
+    signer: user,
+    decryptionSession: { store: new MemorySessionStore() },
+  });
+  return { mockRelayer, user, client };
+}
+
+/**
+ * Signed user decryption request as the relayer SDK builds it
+ */
+async function signUserDecrypt(mockRelayer: MockRelayer, signer: ethers.Wallet, startTimestamp: number, durationDays = 1) {
+  const { publicKey, privateKey } = mockRelayer.generateKeypair();
+  const eip712 = mockRelayer.createEIP712(publicKey, [CONTRACT], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(eip712.domain, eip712.types, eip712.message);
+  return { publicKey, privateKey, signature };
+}
+
+describe('MockRelayer', () => {
+  it('round-trips encrypt, userDecrypt and publicDecrypt through createFhevmClient', async () => {
+    const { mockRelayer, user, client } = await setup();
+    const { handles } = await client
+      .createInput(CONTRACT, user.address)
+      .u32(1001)
+      .u64(2n ** 40n)
+      .bool(true)
+      .address(CONTRACT)
+      .encrypt();
+
+    const clearValues = await client.userDecrypt(handles, CONTRACT);
+    expect(handles.map((handle) => clearValues[handle])).toEqual([1001n, 2n ** 40n, true, CONTRACT]);
+
+    const result = await client.publicDecrypt(handles);
+    expect(result.clearValues).toEqual(clearValues);
+    expect(result.abiEncodedClearValues).toBe(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['uint32', 'uint64', 'bool', 'address'],
+        [1001n, 2n ** 40n, true, CONTRACT]
+      )
+    );
+
+    // numSigners | signature | extraData, signed over the same 0x00 extraData
+    const proof = ethers.getBytes(result.decryptionProof);
+    expect(proof[0]).toBe(1);
+    expect(proof.length).toBe(1 + 65 + 1);
+    expect(proof[66]).toBe(0);
+    const signer = ethers.verifyTypedData(
+      {
+        name: 'Decryption',
+        version: '1',
+        chainId: mockRelayer.profile.gatewayChainId,
+        verifyingContract: mockRelayer.profile.verifyingContractAddressDecryption,
+      },
+      PUBLIC_DECRYPT_TYPES,
+      { ctHandles: handles, decryptedResult: result.abiEncodedClearValues, extraData: '0x00' },
+      ethers.hexlify(proof.subarray(1, 66))
+    );
+    expect(signer).toBe(mockRelayer.kmsSignerAddress);
+  });
+
+  it('uses the 0x00 extraData in input proofs and EIP-712 requests', async () => {
+    const { mockRelayer, user } = await setup();
+    const { inputProof } = await mockRelayer.createEncryptedInput(CONTRACT, user.address).add8(7).encrypt();
+    expect(ethers.hexlify(inputProof.subarray(-1))).toBe('0x00');
+
+    const { publicKey } = mockRelayer.generateKeypair();
+    expect(mockRelayer.createEIP712(publicKey, [CONTRACT], 0, 1).message.extraData).toBe('0x00');
+  });
+
+  it('gives the same handles for the same seed', async () => {
+    const user = ethers.Wallet.createRandom().address;
+    const encryptWith = async (seed: string) =>
+      (await new MockRelayer({ seed }).createEncryptedInput(CONTRACT, user).add32(5).encrypt()).handles[0];
+
+    expect(await encryptWith('a')).toEqual(await encryptWith('a'));
+    expect(await encryptWith('a')).not.toEqual(await encryptWith('b'));
+  });
+
+  it('matches relayer results to handles whatever casing either side uses', async () => {
+    const { mockRelayer, user, client } = await setup();
+    const { handles } = await client.createInput(CONTRACT, user.address).u32(1001).bool(true).encrypt();
+    const upper = (handle: string) => `0x${handle.slice(2).toUpperCase()}`;
+    const rekey = <T>(values: Record<string, T>) =>
+      Object.fromEntries(Object.entries(values).map(([handle, value]) => [upper(handle), value]));
+
+    const userDecrypt = mockRelayer.userDecrypt.bind(mockRelayer);
+    vi.spyOn(mockRelayer, 'userDecrypt').mockImplementation(async (...args) => rekey(await userDecrypt(...args)));
+    const publicDecrypt = mockRelayer.publicDecrypt.bind(mockRelayer);
+    vi.spyOn(mockRelayer, 'publicDecrypt').mockImplementation(async (requested) => {
+      const result = await publicDecrypt(requested);
+      return { ...result, clearValues: rekey(result.clearValues) };
+    });
+
+    const mixed = [handles[0], upper(handles[1])];
+    expect(await client.userDecrypt(mixed, CONTRACT)).toEqual({ [mixed[0]]: 1001n, [mixed[1]]: true });
+    expect((await client.publicDecrypt(mixed)).clearValues).toEqual({ [mixed[0]]: 1001n, [mixed[1]]: true });
+  });
+
+  describe("'strict' ACL", () => {
+    it('denies user decryption until both the user and the contract are allowed', async () => {
+      const { mockRelayer, user, client } = await setup('strict');
+      const { handles } = await client.createInput(CONTRACT, user.address).u32(1001).encrypt();
+
+      await expect(client.userDecrypt(handles, CONTRACT)).rejects.toBeInstanceOf(AclDeniedError);
+
+      mockRelayer.allow(handles[0], user.address);
+      await expect(client.userDecrypt(handles, CONTRACT)).rejects.toBeInstanceOf(AclDeniedError);
+
+      mockRelayer.allow(handles[0], CONTRACT);
+      expect((await client.userDecrypt(handles, CONTRACT))[handles[0]]).toBe(1001n);
+    });
+
+    it('denies public decryption of handles not made publicly decryptable', async () => {
+      const { mockRelayer, user, client } = await setup('strict');
+      const { handles } = await client.createInput(CONTRACT, user.address).u32(1001).encrypt();
+
+      const denied = await client.publicDecrypt(handles).catch((error) => error);
+      expect(denied).toBeInstanceOf(AclDeniedError);
+      expect(denied.handle).toBe(handles[0]);
+
+      mockRelayer.makePubliclyDecryptable(handles[0]);
+      expect((await client.publicDecrypt(handles)).clearValues[handles[0]]).toBe(1001n);
+    });
+  });
+
+  describe('user decryption requests', () => {
+    it('rejects a request whose validity window has passed', async () => {
+      const { mockRelayer, user } = await setup();
+      const { handles } = await mockRelayer.createEncryptedInput(CONTRACT, user.address).add32(1).encrypt();
+      const startTimestamp = Math.floor(Date.now() / 1000) - 2 * 86400;
+      const { publicKey, privateKey, signature } = await signUserDecrypt(mockRelayer, user, startTimestamp);
+
+      await expect(
+        mockRelayer.userDecrypt(
+          [{ handle: ethers.hexlify(handles[0]), contractAddress: CONTRACT }],
+          privateKey,
+          publicKey,
+          signature,
+          [CONTRACT],
+          user.address,
+          startTimestamp,
+          1
+        )
+      ).rejects.toThrow('User decryption request has expired');
+    });
+
+    it('rejects a request signed by another account', async () => {
+      const { mockRelayer, user } = await setup();
+      const { handles } = await mockRelayer.createEncryptedInput(CONTRACT, user.address).add32(1).encrypt();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const forger = ethers.Wallet.createRandom();
+      const { publicKey, privateKey, signature } = await signUserDecrypt(mockRelayer, forger, startTimestamp);
+
+      await expect(
+        mockRelayer.userDecrypt(
+          [{ handle: ethers.hexlify(handles[0]), contractAddress: CONTRACT }],
+          privateKey,
+          publicKey,
+          signature,
+          [CONTRACT],
+          user.address,
+          startTimestamp,
+          1
+        )
+      ).rejects.toThrow(`signed by ${forger.address}, not ${user.address}`);
+    });
+
+    it('rejects a request whose signed fields were altered', async () => {
+      const { mockRelayer, user } = await setup();
+      const { handles } = await mockRelayer.createEncryptedInput(CONTRACT, user.address).add32(1).encrypt();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const { publicKey, privateKey, signature } = await signUserDecrypt(mockRelayer, user, startTimestamp);
+
+      // A longer validity window than the user signed recovers to some other address
+      await expect(
+        mockRelayer.userDecrypt(
+          [{ handle: ethers.hexlify(handles[0]), contractAddress: CONTRACT }],
+          privateKey,
+          publicKey,
+          signature,
+          [CONTRACT],
+          user.address,
+          startTimestamp,
+          365
+        )
+      ).rejects.toBeInstanceOf(FhevmError);
+    });
+
+    it('rejects a malformed signature and a foreign keypair', async () => {
+      const { mockRelayer, user } = await setup();
+      const { handles } = await mockRelayer.createEncryptedInput(CONTRACT, user.address).add32(1).encrypt();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const { publicKey, privateKey, signature } = await signUserDecrypt(mockRelayer, user, startTimestamp);
+      const decrypt = (key: string, sig: string) =>
+        mockRelayer.userDecrypt(
+          [{ handle: ethers.hexlify(handles[0]), contractAddress: CONTRACT }],
+          key,
+          publicKey,
+          sig,
+          [CONTRACT],
+          user.address,
+          startTimestamp,
+          1
+        );
+
+      await expect(decrypt(privateKey, '0x1234')).rejects.toThrow('Invalid EIP-712 signature for user decryption');
+      await expect(decrypt(mockRelayer.generateKeypair().privateKey, signature)).rejects.toThrow('Keypair mismatch');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS, ReadCall, batchRead, isMulticallAvailable } from '../src/core/multicall.js';
+
+const TARGET = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const targetInterface = new ethers.Interface(['function valueOf(uint256 id) view returns (uint256)']);
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+interface FakeProviderOptions {
+  /** getCode rejections before it starts answering */
+  getCodeFailures?: number;
+  /** Whether aggregate3 requests fail as a whole */
+  aggregateFails?: boolean;
+}
+
+/**
+ * Provider answering valueOf(id) = id * 10 directly and through a Multicall3 at MULTICALL3_ADDRESS
+ */
+function fakeProvider(options: FakeProviderOptions = {}) {
+  let getCodeFailures = options.getCodeFailures ?? 0;
+  const stats = { getCode: 0, aggregate: 0, direct: 0 };
+  const answer = (data: string) => {
+    const [id] = targetInterface.decodeFunctionData('valueOf', data);
+    return targetInterface.encodeFunctionResult('valueOf', [id * 10n]);
+  };
+
+  const provider = {
+    async getCode() {
+      stats.getCode++;
+      if (getCodeFailures > 0) {
+        getCodeFailures--;
+        throw new Error('network timeout');
+      }
+      return '0x6080';
+    },
+    async call(tx: { to: string; data: string }) {
+      if (ethers.getAddress(tx.to) === MULTICALL3_ADDRESS) {
+        stats.aggregate++;
+        if (options.aggregateFails) throw new Error('out of gas');
+        const [calls] = multicallInterface.decodeFunctionData('aggregate3', tx.data);
+        const returnData = calls.map((call: ethers.Result) => ({ success: true, returnData: answer(call.callData) }));
+        return multicallInterface.encodeFunctionResult('aggregate3', [returnData]);
+      }
+      stats.direct++;
+      return answer(tx.data);
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, stats };
+}
+
+function valueCalls(count: number): ReadCall[] {
+  return Array.from({ length: count }, (_, id) => ({
+    target: TARGET,
+    contractInterface: targetInterface,
+    functionName: 'valueOf',
+    args: [id],
+  }));
+}
+
+function values(results: Awaited<ReturnType<typeof batchRead>>): bigint[] {
+  return results.map((result) => (result.success ? result.value[0] : -1n));
+}
+
+describe('isMulticallAvailable', () => {
+  it('does not cache a failed lookup', async () => {
+    const { provider, stats } = fakeProvider({ getCodeFailures: 1 });
+
+    await expect(isMulticallAvailable(provider)).rejects.toThrow('network timeout');
+    expect(await isMulticallAvailable(provider)).toBe(true);
+    expect(await isMulticallAvailable(provider)).toBe(true);
+    expect(stats.getCode).toBe(2);
+  });
+});
+
+describe('batchRead', () => {
+  it('aggregates calls through Multicall3', async () => {
+    const { provider, stats } = fakeProvider();
+
+    const results = await batchRead(provider, valueCalls(5), { batchSize: 2 });
+
+    expect(values(results)).toEqual([0n, 10n, 20n, 30n, 40n]);
+    expect(stats).toMatchObject({ aggregate: 3, direct: 0 });
+  });
+
+  it('reads directly while the availability check fails, then uses Multicall3', async () => {
+    const { provider, stats } = fakeProvider({ getCodeFailures: 1 });
+
+    expect(values(await batchRead(provider, valueCalls(2)))).toEqual([0n, 10n]);
+    expect(stats).toMatchObject({ aggregate: 0, direct: 2 });
+
+    expect(values(await batchRead(provider, valueCalls(2)))).toEqual([0n, 10n]);
+    expect(stats).toMatchObject({ aggregate: 1, direct: 2 });
+  });
+
+  it('retries a failed aggregate3 batch as single calls', async () => {
+    const { provider, stats } = fakeProvider({ aggregateFails: true });
+
+    const results = await batchRead(provider, valueCalls(3), { batchSize: 2 });
+
+    expect(values(results)).toEqual([0n, 10n, 20n]);
+    expect(stats).toMatchObject({ aggregate: 2, direct: 3 });
+  });
+});
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from loading the web app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    coverage: {
+      include: ['src/**/*.ts'],
+    },
+  },
+});
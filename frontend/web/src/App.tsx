@@ -1,14 +1,15 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { JSX, useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { JSX, useEffect, useMemo, useRef, useState } from "react";
+import { getContractReadOnly, getContractWithSigner, getDeviceAuthWithSigner, getIndexerFromBlock, config } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, DecryptedValue, canAuthenticate, isRetired, toFhevmError, UserRejectedError, DataAlreadyVerifiedError, DeviceIndexer, IndexedDevice, IndexedDeviceSource, readAdapterDevices, DeviceType, packDeviceMetadata, parseDeviceMetadata, HeartbeatRecord, HeartbeatSummary, DeviceState, DeviceStateReason, DEVICE_STATES, DEVICE_STATE_REASONS, DEVICE_STATE_TRANSITIONS, DeviceProvisioner, ParsedManifest, ProvisioningResult, parseDeviceManifest, toProvisioningReport } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface IoTDevice {
   id: string;
+  source: IndexedDeviceSource;
   name: string;
   status: string;
   encryptedValue: string;
@@ -18,10 +19,46 @@ interface IoTDevice {
   creator: string;
   timestamp: number;
   isVerified: boolean;
-  decryptedValue: number;
+  /** On-chain verified clear value, kept as bigint so wide integers are displayed exactly */
+  decryptedValue: bigint;
   deviceType: string;
   location: string;
-  battery: number;
+  /** Latest signed heartbeat, else the creation-time metadata; null when there is neither */
+  battery: number | null;
+  /** Timestamp of the latest heartbeat, null when the device never reported */
+  lastSeen: number | null;
+  /** Whether the latest heartbeat is recent, null when the device never reported */
+  online: boolean | null;
+  /** Proposed new owner of a DeviceAuthFHE device, null when no transfer is pending */
+  pendingOwner: string | null;
+  lifecycle: DeviceState;
+  /** Reason of the latest lifecycle transition, null for adapter records */
+  stateReason: DeviceStateReason | null;
+}
+
+const STATE_LABELS: Record<DeviceState, string> = {
+  provisioned: "🔒 Provisioned",
+  active: "✅ Active",
+  suspended: "⏸️ Suspended",
+  revoked: "⛔ Revoked",
+  decommissioned: "🗑️ Decommissioned"
+};
+
+/** HeartbeatService's default staleAfterSeconds */
+const HEARTBEAT_STALE_SECONDS = 600;
+
+/**
+ * Overlay a device's latest heartbeat (keyed by DeviceAuthFHE registry key) on its on-chain record
+ */
+function withHeartbeat(device: IoTDevice, heartbeats: Map<string, HeartbeatRecord>, now: number): IoTDevice {
+  const heartbeat = heartbeats.get(device.id.toLowerCase());
+  if (!heartbeat) return device;
+  return {
+    ...device,
+    battery: heartbeat.battery,
+    lastSeen: heartbeat.timestamp,
+    online: now - heartbeat.timestamp < HEARTBEAT_STALE_SECONDS
+  };
 }
 
 interface DeviceStats {
@@ -38,6 +75,7 @@ const App: React.FC = () => {
   const [devices, setDevices] = useState<IoTDevice[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [addingDevice, setAddingDevice] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
     visible: false, 
@@ -69,6 +107,9 @@ const App: React.FC = () => {
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [contractAddress, setContractAddress] = useState("");
+  const indexerRef = useRef<DeviceIndexer | null>(null);
+  const [heartbeatSummary, setHeartbeatSummary] = useState<HeartbeatSummary | null>(null);
+  const [latestHeartbeats, setLatestHeartbeats] = useState<Map<string, HeartbeatRecord>>(new Map());
 
   useEffect(() => {
     const initFhevmAfterConnection = async () => {
@@ -79,7 +120,8 @@ const App: React.FC = () => {
       try {
         setFhevmInitializing(true);
         console.log('Initializing FHEVM for IoT device authentication...');
-        await initialize();
+        // config.mockRelayer serves encryption/decryption from the SDK's in-memory MockRelayer
+        await initialize(config.mockRelayer ? { mockRelayer: true } : undefined);
         console.log('FHEVM initialized successfully');
       } catch (error) {
         console.error('Failed to initialize FHEVM:', error);
@@ -118,48 +160,106 @@ const App: React.FC = () => {
     loadDataAndContract();
   }, [isConnected]);
 
+  useEffect(() => {
+    return () => {
+      indexerRef.current?.stop();
+      indexerRef.current = null;
+    };
+  }, [isConnected]);
+
+  // Battery and activity come from signed device heartbeats when a heartbeat service is configured
+  useEffect(() => {
+    if (!config.heartbeatUrl) return;
+    const loadHeartbeats = () => {
+      fetch(`${config.heartbeatUrl}/heartbeats/summary`)
+        .then(res => res.ok ? res.json() : null)
+        .then(setHeartbeatSummary)
+        .catch(() => setHeartbeatSummary(null));
+      fetch(`${config.heartbeatUrl}/heartbeats/latest`)
+        .then(res => res.ok ? res.json() as Promise<HeartbeatRecord[]> : [])
+        .then(records => setLatestHeartbeats(new Map(records.map(r => [r.deviceKey.toLowerCase(), r]))))
+        .catch(() => setLatestHeartbeats(new Map()));
+    };
+    loadHeartbeats();
+    const timer = setInterval(loadHeartbeats, 30000);
+    return () => clearInterval(timer);
+  }, []);
+
   const addToHistory = (message: string) => {
     setOperationHistory(prev => [`[${new Date().toLocaleTimeString()}] ${message}`, ...prev.slice(0, 9)]);
   };
 
+  const toIoTDevice = (device: IndexedDevice): IoTDevice => {
+    const metadata = device.details ? parseDeviceMetadata(device.details) : null;
+    return {
+      id: device.id,
+      source: device.source,
+      name: device.details?.name ?? device.id,
+      status: device.status,
+      encryptedValue: device.id,
+      publicValue1: Number(device.details?.publicValue1 ?? 0),
+      publicValue2: Number(device.details?.publicValue2 ?? 0),
+      description: device.details?.description ?? "",
+      creator: device.owner,
+      timestamp: Number(device.details?.timestamp ?? device.createdAt),
+      // A revoked or decommissioned device no longer counts as verified, whatever it did before
+      isVerified: (device.status === "verified" || device.status === "authenticated") && !(device.state && isRetired(device.state)),
+      decryptedValue: device.decryptedValue ?? 0n,
+      deviceType: metadata?.deviceType ?? "unknown",
+      location: metadata?.location ?? "unknown",
+      battery: metadata?.battery ?? null,
+      lastSeen: null,
+      online: null,
+      pendingOwner: device.pendingOwner ?? null,
+      // Adapter records have no on-chain lifecycle: verified ones count as active
+      lifecycle: device.state ?? (device.status === "verified" ? "active" : "provisioned"),
+      stateReason: device.stateReason ?? null
+    };
+  };
+
   const loadDevices = async () => {
     if (!isConnected) return;
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
-      const devicesList: IoTDevice[] = [];
-      
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          devicesList.push({
-            id: businessId,
-            name: businessData.name,
-            status: businessData.isVerified ? "verified" : "pending",
-            encryptedValue: businessId,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            description: businessData.description,
-            creator: businessData.creator,
-            timestamp: Number(businessData.timestamp),
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0,
-            deviceType: ["sensor", "actuator", "gateway", "controller"][Math.floor(Math.random() * 4)],
-            location: ["gateway-1", "gateway-2", "edge-node", "cloud"][Math.floor(Math.random() * 4)],
-            battery: Math.floor(Math.random() * 100) + 1
-          });
-        } catch (e) {
-          console.error('Error loading device data:', e);
-        }
+      const fromBlock = getIndexerFromBlock();
+      if (fromBlock === undefined) {
+        const contract = await getContractReadOnly();
+        if (!contract) return;
+
+        // Unknown deployment block: batched getAllBusinessIds + getBusinessData reads, no log history
+        // (DeviceAuthFHE devices are only listed by the log indexer)
+        const { devices: indexed, errors } = await readAdapterDevices(contract.runner as ethers.Provider, await contract.getAddress());
+        errors.forEach((error, id) => console.error(`Failed to load business data for ${id}:`, error));
+        const devicesList = indexed.map(toIoTDevice);
+        setDevices(devicesList);
+        updateStats(devicesList);
+        addToHistory(`Loaded ${devicesList.length} devices from blockchain`);
+        return;
+      }
+
+      if (!indexerRef.current) {
+        const contract = await getContractReadOnly();
+        if (!contract) return;
+
+        // Backfills contract logs once, then follows new blocks instead of one RPC per device
+        const indexer = new DeviceIndexer(contract.runner as ethers.Provider, {
+          adapterAddress: await contract.getAddress(),
+          deviceAuthAddress: config.deviceAuthAddress || undefined,
+          fromBlock
+        });
+        indexer.onChange((indexed) => {
+          const devicesList = indexed.map(toIoTDevice);
+          setDevices(devicesList);
+          updateStats(devicesList);
+        });
+        indexerRef.current = indexer;
+        await indexer.start();
+      } else {
+        await indexerRef.current.sync();
       }
       
-      setDevices(devicesList);
-      updateStats(devicesList);
-      addToHistory(`Loaded ${devicesList.length} devices from blockchain`);
+      addToHistory(`Loaded ${indexerRef.current.query().length} devices from blockchain`);
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load devices" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -171,8 +271,10 @@ const App: React.FC = () => {
   const updateStats = (deviceList: IoTDevice[]) => {
     const total = deviceList.length;
     const verified = deviceList.filter(d => d.isVerified).length;
-    const active = deviceList.filter(d => d.battery > 20).length;
-    const avgBattery = deviceList.length > 0 ? deviceList.reduce((sum, d) => sum + d.battery, 0) / deviceList.length : 0;
+    const batteries = deviceList.map(d => d.battery).filter((b): b is number => b !== null);
+    // In service (provisioned or active) with a healthy battery
+    const active = deviceList.filter(d => canAuthenticate(d.lifecycle) && d.battery !== null && d.battery > 20).length;
+    const avgBattery = batteries.length > 0 ? batteries.reduce((sum, b) => sum + b, 0) / batteries.length : 0;
     const encryptionRate = deviceList.length > 0 ? (verified / total) * 100 : 0;
 
     setStats({
@@ -203,14 +305,20 @@ const App: React.FC = () => {
       
       const encryptedResult = await encrypt(contractAddress, address, deviceValue);
       
+      const metadata = packDeviceMetadata({
+        deviceType: newDeviceData.deviceType as DeviceType,
+        location: newDeviceData.location,
+        battery: Number(newDeviceData.battery)
+      });
+      
       const tx = await contract.createBusinessData(
         businessId,
         newDeviceData.name,
         encryptedResult.encryptedData,
         encryptedResult.proof,
-        newDeviceData.battery,
-        0,
-        `${newDeviceData.deviceType} device at ${newDeviceData.location}`
+        metadata.publicValue1,
+        metadata.publicValue2,
+        metadata.description
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Adding device to blockchain..." });
@@ -234,9 +342,10 @@ const App: React.FC = () => {
         battery: 100 
       });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const error = toFhevmError(e);
+      const errorMessage = error instanceof UserRejectedError 
         ? "Transaction rejected" 
-        : "Failed to add device: " + (e.message || "Unknown error");
+        : "Failed to add device: " + (error.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -244,7 +353,21 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptDeviceData = async (deviceId: string): Promise<number | null> => {
+  const provisionDevices = async (manifest: ParsedManifest, onProgress: (result: ProvisioningResult) => void) => {
+    const contract = await getContractWithSigner();
+    if (!contract) throw new Error("Failed to get contract with signer");
+    
+    // One encrypted input per 16 device IDs, at most 4 transactions in flight
+    const provisioner = new DeviceProvisioner(config.contractAddress, contract.runner as ethers.Signer);
+    const results = await provisioner.provision(manifest.rows, onProgress);
+    
+    const confirmed = results.filter(r => r.status === "confirmed").length;
+    addToHistory(`Bulk import: ${confirmed}/${results.length} devices provisioned`);
+    await loadDevices();
+    return results;
+  };
+
+  const decryptDeviceData = async (deviceId: string): Promise<DecryptedValue | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -257,7 +380,7 @@ const App: React.FC = () => {
       
       const businessData = await contractRead.getBusinessData(deviceId);
       if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
+        const storedValue = BigInt(businessData.decryptedValue ?? 0);
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -279,7 +402,8 @@ const App: React.FC = () => {
         [encryptedValueHandle],
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(deviceId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyDecryption(deviceId, abiEncodedClearValues, decryptionProof),
+        ['euint32']
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying device authentication..." });
@@ -294,10 +418,11 @@ const App: React.FC = () => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
-      return Number(clearValue);
+      return clearValue;
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
+      const error = toFhevmError(e);
+      if (error instanceof DataAlreadyVerifiedError) {
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -313,13 +438,86 @@ const App: React.FC = () => {
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Authentication failed: " + (e.message || "Unknown error") 
+        message: error instanceof UserRejectedError 
+          ? "Transaction rejected" 
+          : "Authentication failed: " + (error.message || "Unknown error") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     }
   };
 
+  const transferDevice = async (deviceId: string, action: "propose" | "accept" | "cancel", newOwner?: string) => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
+    try {
+      const deviceAuth = await getDeviceAuthWithSigner();
+      setTransactionStatus({ visible: true, status: "pending", message: "Submitting ownership transfer..." });
+      
+      if (action === "propose") {
+        if (!newOwner || !ethers.isAddress(newOwner)) throw new Error("Enter a valid owner address");
+        await deviceAuth.proposeTransfer(deviceId, newOwner);
+        addToHistory(`Proposed transfer of device ${deviceId} to ${newOwner}`);
+      } else if (action === "accept") {
+        await deviceAuth.acceptTransfer(deviceId);
+        addToHistory(`Accepted ownership of device ${deviceId}`);
+      } else {
+        await deviceAuth.cancelTransfer(deviceId);
+        addToHistory(`Cancelled transfer of device ${deviceId}`);
+      }
+      
+      await loadDevices();
+      setTransactionStatus({ visible: true, status: "success", message: "Ownership transfer updated" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const error = toFhevmError(e);
+      setTransactionStatus({ 
+        visible: true, 
+        status: "error", 
+        message: error instanceof UserRejectedError 
+          ? "Transaction rejected" 
+          : "Transfer failed: " + (error.message || "Unknown error") 
+      });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const changeDeviceState = async (device: IoTDevice, to: DeviceState, reason: DeviceStateReason) => {
+    try {
+      const deviceAuth = await getDeviceAuthWithSigner();
+      setTransactionStatus({ visible: true, status: "pending", message: `Moving device to ${to}...` });
+      
+      if (to === "active") {
+        await (device.lifecycle === "suspended" ? deviceAuth.reactivateDevice(device.id) : deviceAuth.activateDevice(device.id));
+      } else if (to === "suspended") {
+        await deviceAuth.suspendDevice(device.id, reason);
+      } else if (to === "revoked") {
+        await deviceAuth.revokeDevice(device.id, reason);
+      } else if (to === "decommissioned") {
+        await deviceAuth.decommissionDevice(device.id, reason);
+      }
+      
+      await loadDevices();
+      addToHistory(`Device ${device.id} moved from ${device.lifecycle} to ${to}`);
+      setTransactionStatus({ visible: true, status: "success", message: `Device is now ${to}` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      const error = toFhevmError(e);
+      setTransactionStatus({ 
+        visible: true, 
+        status: "error", 
+        message: error instanceof UserRejectedError 
+          ? "Transaction rejected" 
+          : "State change failed: " + (error.message || "Unknown error") 
+      });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
   const callIsAvailable = async () => {
     try {
       const contract = await getContractReadOnly();
@@ -339,12 +537,16 @@ const App: React.FC = () => {
     }
   };
 
-  const filteredDevices = devices.filter(device => {
+  // Per-device battery and status from the heartbeat service, refreshed with every poll
+  const liveDevices = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    return devices.map(device => withHeartbeat(device, latestHeartbeats, now));
+  }, [devices, latestHeartbeats]);
+
+  const filteredDevices = liveDevices.filter(device => {
     const matchesSearch = device.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
                          device.id.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = filterStatus === "all" || 
-                         (filterStatus === "verified" && device.isVerified) ||
-                         (filterStatus === "pending" && !device.isVerified);
+    const matchesStatus = filterStatus === "all" || device.lifecycle === filterStatus;
     return matchesSearch && matchesStatus;
   });
 
@@ -373,7 +575,7 @@ const App: React.FC = () => {
           <div className="stat-icon">⚡</div>
           <div className="stat-content">
             <h3>Active</h3>
-            <div className="stat-value">{stats.activeDevices}</div>
+            <div className="stat-value">{heartbeatSummary ? heartbeatSummary.activeDevices : stats.activeDevices}</div>
             <div className="stat-trend">Online</div>
           </div>
         </div>
@@ -382,7 +584,7 @@ const App: React.FC = () => {
           <div className="stat-icon">🔋</div>
           <div className="stat-content">
             <h3>Avg Battery</h3>
-            <div className="stat-value">{stats.averageBattery.toFixed(1)}%</div>
+            <div className="stat-value">{(heartbeatSummary ? heartbeatSummary.averageBattery : stats.averageBattery).toFixed(1)}%</div>
             <div className="stat-trend">Health</div>
           </div>
         </div>
@@ -500,6 +702,9 @@ const App: React.FC = () => {
           <button onClick={() => setShowAddModal(true)} className="add-btn metal-btn">
             + Add Device
           </button>
+          <button onClick={() => setShowImportModal(true)} className="add-btn metal-btn">
+            Bulk Import
+          </button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -536,8 +741,9 @@ const App: React.FC = () => {
                 className="metal-select"
               >
                 <option value="all">All Devices</option>
-                <option value="verified">Verified</option>
-                <option value="pending">Pending</option>
+                {DEVICE_STATES.map(state => (
+                  <option key={state} value={state}>{STATE_LABELS[state]}</option>
+                ))}
               </select>
               <button onClick={loadDevices} className="refresh-btn metal-btn" disabled={isRefreshing}>
                 {isRefreshing ? "🔄" : "Refresh"}
@@ -590,11 +796,21 @@ const App: React.FC = () => {
         />
       )}
       
+      {showImportModal && (
+        <BulkImportModal 
+          onProvision={provisionDevices} 
+          onClose={() => setShowImportModal(false)} 
+        />
+      )}
+      
       {selectedDevice && (
         <DeviceDetailModal 
-          device={selectedDevice} 
+          device={liveDevices.find(d => d.id === selectedDevice.id) ?? selectedDevice} 
+          account={address}
           onClose={() => setSelectedDevice(null)} 
           onAuthenticate={decryptDeviceData}
+          onTransfer={transferDevice}
+          onChangeState={changeDeviceState}
           isDecrypting={fheIsDecrypting}
         />
       )}
@@ -618,7 +834,7 @@ const App: React.FC = () => {
 const DeviceCard: React.FC<{ 
   device: IoTDevice; 
   onSelect: (device: IoTDevice) => void;
-  onAuthenticate: (deviceId: string) => Promise<number | null>;
+  onAuthenticate: (deviceId: string) => Promise<DecryptedValue | null>;
 }> = ({ device, onSelect, onAuthenticate }) => {
   const [isAuthenticating, setIsAuthenticating] = useState(false);
 
@@ -633,8 +849,8 @@ const DeviceCard: React.FC<{
     <div className="device-card metal-card" onClick={() => onSelect(device)}>
       <div className="device-header">
         <div className="device-name">{device.name}</div>
-        <div className={`device-status ${device.status} metal-badge`}>
-          {device.isVerified ? "✅ Verified" : "🔒 Pending"}
+        <div className={`device-status ${device.lifecycle} metal-badge`}>
+          {STATE_LABELS[device.lifecycle]}
         </div>
       </div>
       
@@ -651,23 +867,31 @@ const DeviceCard: React.FC<{
           <span>Battery:</span>
           <div className="battery-bar">
             <div 
-              className={`battery-fill ${device.battery > 50 ? 'high' : device.battery > 20 ? 'medium' : 'low'}`}
-              style={{ width: `${device.battery}%` }}
+              className={`battery-fill ${(device.battery ?? 0) > 50 ? 'high' : (device.battery ?? 0) > 20 ? 'medium' : 'low'}`}
+              style={{ width: `${device.battery ?? 0}%` }}
             ></div>
-            <span>{device.battery}%</span>
+            <span>{device.battery === null ? "—" : `${device.battery}%`}</span>
           </div>
         </div>
+        {device.online !== null && (
+          <div className="info-row">
+            <span>Heartbeat:</span>
+            <span>{device.online ? "🟢 Online" : "⚪ Offline"}</span>
+          </div>
+        )}
       </div>
       
-      <div className="device-actions">
-        <button 
-          className={`auth-btn metal-btn ${device.isVerified ? 'verified' : ''}`}
-          onClick={handleAuthenticate}
-          disabled={isAuthenticating}
-        >
-          {isAuthenticating ? "🔓..." : device.isVerified ? "✅ Verified" : "🔓 Authenticate"}
-        </button>
-      </div>
+      {device.source === "adapter" && (
+        <div className="device-actions">
+          <button 
+            className={`auth-btn metal-btn ${device.isVerified ? 'verified' : ''}`}
+            onClick={handleAuthenticate}
+            disabled={isAuthenticating}
+          >
+            {isAuthenticating ? "🔓..." : device.isVerified ? "✅ Verified" : "🔓 Authenticate"}
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -782,13 +1006,154 @@ const AddDeviceModal: React.FC<{
   );
 };
 
+const downloadReport = (results: ProvisioningResult[], format: "csv" | "json") => {
+  const blob = new Blob([toProvisioningReport(results, format)], { type: format === "csv" ? "text/csv" : "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `provisioning-report.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BulkImportModal: React.FC<{
+  onProvision: (manifest: ParsedManifest, onProgress: (result: ProvisioningResult) => void) => Promise<ProvisioningResult[]>;
+  onClose: () => void;
+}> = ({ onProvision, onClose }) => {
+  const [manifest, setManifest] = useState<ParsedManifest | null>(null);
+  const [parseError, setParseError] = useState("");
+  const [results, setResults] = useState<ProvisioningResult[]>([]);
+  const [provisioning, setProvisioning] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setResults([]);
+    setParseError("");
+    try {
+      const format = file.name.toLowerCase().endsWith(".json") ? "json" : "csv";
+      setManifest(parseDeviceManifest(await file.text(), format));
+    } catch (error: any) {
+      setManifest(null);
+      setParseError(error.message || "Could not read manifest");
+    }
+  };
+
+  const handleProvision = async () => {
+    if (!manifest) return;
+    setProvisioning(true);
+    setResults(manifest.rows.map(row => ({ line: row.line, deviceId: row.deviceId, businessId: row.businessId, name: row.name, status: "queued" })));
+    try {
+      const final = await onProvision(manifest, (result) => {
+        setResults(prev => prev.map(r => r.line === result.line ? result : r));
+      });
+      setResults(final);
+    } catch (error: any) {
+      setParseError(error.message || "Provisioning failed");
+    } finally {
+      setProvisioning(false);
+    }
+  };
+
+  const confirmed = results.filter(r => r.status === "confirmed").length;
+  const failed = results.filter(r => r.status === "failed").length;
+  const finished = results.length > 0 && confirmed + failed === results.length;
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-device-modal metal-modal">
+        <div className="modal-header">
+          <h2>Bulk Device Import</h2>
+          <button onClick={onClose} className="close-modal metal-close" disabled={provisioning}>&times;</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice metal-notice">
+            <strong>CSV / JSON Manifest</strong>
+            <p>Columns: deviceId, name, deviceType, location, battery (optional), businessId (optional)</p>
+          </div>
+          
+          <div className="form-group">
+            <input type="file" accept=".csv,.json" onChange={handleFile} disabled={provisioning} className="metal-input" />
+          </div>
+          
+          {parseError && <div className="error-text">{parseError}</div>}
+          
+          {manifest && (
+            <div className="form-group">
+              <label>{manifest.rows.length} valid rows, {manifest.errors.length} rejected</label>
+              {manifest.errors.map(error => (
+                <div key={error.line} className="history-entry metal-entry">Line {error.line}: {error.message}</div>
+              ))}
+            </div>
+          )}
+          
+          {results.length > 0 && (
+            <div className="form-group">
+              <label>{confirmed} confirmed, {failed} failed, {results.length - confirmed - failed} in progress</label>
+              <div className="history-list">
+                {results.map(result => (
+                  <div key={result.line} className="history-entry metal-entry">
+                    #{result.deviceId} {result.name}: {result.status}
+                    {result.txHash && ` (${result.txHash.slice(0, 10)}...)`}
+                    {result.error && ` - ${result.error}`}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        
+        <div className="modal-footer">
+          {finished && (
+            <>
+              <button onClick={() => downloadReport(results, "csv")} className="cancel-btn metal-btn">Report (CSV)</button>
+              <button onClick={() => downloadReport(results, "json")} className="cancel-btn metal-btn">Report (JSON)</button>
+            </>
+          )}
+          <button 
+            onClick={handleProvision} 
+            disabled={provisioning || !manifest || manifest.rows.length === 0} 
+            className="submit-btn metal-btn"
+          >
+            {provisioning ? "Provisioning..." : `Provision ${manifest?.rows.length ?? 0} Devices`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const DeviceDetailModal: React.FC<{
   device: IoTDevice;
+  account?: string;
   onClose: () => void;
-  onAuthenticate: (deviceId: string) => Promise<number | null>;
+  onAuthenticate: (deviceId: string) => Promise<DecryptedValue | null>;
+  onTransfer: (deviceId: string, action: "propose" | "accept" | "cancel", newOwner?: string) => Promise<void>;
+  onChangeState: (device: IoTDevice, to: DeviceState, reason: DeviceStateReason) => Promise<void>;
   isDecrypting: boolean;
-}> = ({ device, onClose, onAuthenticate, isDecrypting }) => {
-  const [localDecrypted, setLocalDecrypted] = useState<number | null>(null);
+}> = ({ device, account, onClose, onAuthenticate, onTransfer, onChangeState, isDecrypting }) => {
+  const [localDecrypted, setLocalDecrypted] = useState<DecryptedValue | null>(null);
+  const [newOwner, setNewOwner] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
+  const isOwner = !!account && device.creator.toLowerCase() === account.toLowerCase();
+  const isPendingOwner = !!account && device.pendingOwner?.toLowerCase() === account.toLowerCase();
+
+  const handleTransfer = async (action: "propose" | "accept" | "cancel") => {
+    setIsTransferring(true);
+    await onTransfer(device.id, action, newOwner.trim());
+    setIsTransferring(false);
+    if (action === "propose") setNewOwner("");
+  };
+
+  const [stateReason, setStateReason] = useState<DeviceStateReason>("unspecified");
+  const [isChangingState, setIsChangingState] = useState(false);
+
+  const handleChangeState = async (to: DeviceState) => {
+    setIsChangingState(true);
+    await onChangeState(device, to, stateReason);
+    setIsChangingState(false);
+  };
 
   const handleAuthenticate = async () => {
     const result = await onAuthenticate(device.id);
@@ -828,17 +1193,24 @@ const DeviceDetailModal: React.FC<{
               <div className="battery-display">
                 <div className="battery-level">
                   <div 
-                    className={`battery-fill ${device.battery > 50 ? 'high' : device.battery > 20 ? 'medium' : 'low'}`}
-                    style={{ width: `${device.battery}%` }}
+                    className={`battery-fill ${(device.battery ?? 0) > 50 ? 'high' : (device.battery ?? 0) > 20 ? 'medium' : 'low'}`}
+                    style={{ width: `${device.battery ?? 0}%` }}
                   ></div>
                 </div>
-                <span>{device.battery}%</span>
+                <span>{device.battery === null ? "—" : `${device.battery}%`}</span>
               </div>
             </div>
+            {device.lastSeen !== null && (
+              <div className="info-item">
+                <span>Last Heartbeat:</span>
+                <strong>{new Date(device.lastSeen * 1000).toLocaleString()} {device.online ? "🟢" : "⚪"}</strong>
+              </div>
+            )}
             <div className="info-item">
               <span>Status:</span>
-              <span className={`status-badge ${device.isVerified ? 'verified' : 'pending'}`}>
-                {device.isVerified ? '✅ Verified' : '🔒 Pending Authentication'}
+              <span className={`status-badge ${device.lifecycle}`}>
+                {STATE_LABELS[device.lifecycle]}
+                {device.stateReason && device.stateReason !== "unspecified" ? ` (${device.stateReason})` : ""}
               </span>
             </div>
           </div>
@@ -864,18 +1236,102 @@ const DeviceDetailModal: React.FC<{
                 </div>
               </div>
               
-              <button 
-                className={`auth-btn large metal-btn ${device.isVerified ? 'verified' : ''}`}
-                onClick={handleAuthenticate}
-                disabled={isDecrypting}
-              >
-                {isDecrypting ? "Authenticating..." : 
-                 device.isVerified ? "✅ Verified" : 
-                 "🔓 Authenticate Device"}
-              </button>
+              {device.source === "adapter" && (
+                <button 
+                  className={`auth-btn large metal-btn ${device.isVerified ? 'verified' : ''}`}
+                  onClick={handleAuthenticate}
+                  disabled={isDecrypting}
+                >
+                  {isDecrypting ? "Authenticating..." : 
+                   device.isVerified ? "✅ Verified" : 
+                   "🔓 Authenticate Device"}
+                </button>
+              )}
             </div>
           </div>
           
+          {device.source === "deviceAuth" && isOwner && DEVICE_STATE_TRANSITIONS[device.lifecycle].length > 0 && (
+            <div className="authentication-section">
+              <h3>Lifecycle</h3>
+              <div className="form-group">
+                <label>Reason</label>
+                <select 
+                  value={stateReason} 
+                  onChange={(e) => setStateReason(e.target.value as DeviceStateReason)} 
+                  className="metal-select"
+                >
+                  {DEVICE_STATE_REASONS.map(reason => (
+                    <option key={reason} value={reason}>{reason}</option>
+                  ))}
+                </select>
+              </div>
+              {DEVICE_STATE_TRANSITIONS[device.lifecycle].map(to => (
+                <button 
+                  key={to}
+                  className="auth-btn metal-btn"
+                  onClick={() => handleChangeState(to)}
+                  disabled={isChangingState}
+                >
+                  {to === "active" ? (device.lifecycle === "suspended" ? "Reactivate" : "Activate") : `Move to ${STATE_LABELS[to]}`}
+                </button>
+              ))}
+            </div>
+          )}
+          
+          {device.source === "deviceAuth" && (
+            <div className="authentication-section">
+              <h3>Transfer Device</h3>
+              <div className="info-item">
+                <span>Owner:</span>
+                <strong>{device.creator}</strong>
+              </div>
+              {device.pendingOwner && (
+                <div className="info-item">
+                  <span>Pending Owner:</span>
+                  <strong>{device.pendingOwner}</strong>
+                </div>
+              )}
+              
+              {isOwner && (
+                <div className="form-group">
+                  <input 
+                    type="text" 
+                    value={newOwner} 
+                    onChange={(e) => setNewOwner(e.target.value)} 
+                    placeholder="New owner address (0x...)" 
+                    className="metal-input"
+                  />
+                  <button 
+                    className="auth-btn metal-btn"
+                    onClick={() => handleTransfer("propose")}
+                    disabled={isTransferring || !ethers.isAddress(newOwner.trim())}
+                  >
+                    {isTransferring ? "Submitting..." : "Propose Transfer"}
+                  </button>
+                  {device.pendingOwner && (
+                    <button 
+                      className="cancel-btn metal-btn"
+                      onClick={() => handleTransfer("cancel")}
+                      disabled={isTransferring}
+                    >
+                      Cancel Transfer
+                    </button>
+                  )}
+                </div>
+              )}
+              
+              {isPendingOwner && (
+                <button 
+                  className="auth-btn large metal-btn"
+                  onClick={() => handleTransfer("accept")}
+                  disabled={isTransferring}
+                >
+                  {isTransferring ? "Accepting..." : "Accept Ownership"}
+                </button>
+              )}
+            </div>
+          )}
+          
           <div className="device-description">
             <h3>Description</h3>
             <p>{device.description}</p>
@@ -2,60 +2,29 @@
 import { ethers } from "ethers";
 import abiJson from "../abi/UniversalFHEAdapter.json";
 import configJson from "../config.json";
+import { DeviceAuthClient, getSharedProviderPool } from "../../fhevm-sdk/src";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+// Endpoints come from config.json; probed once, then the healthiest one is reused until it fails
+export const providerPool = getSharedProviderPool({
+  urls: config.rpcUrls,
+  chainId: config.chainId
+});
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+let contractDeployed: Promise<boolean> | null = null;
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
+    const provider = await providerPool.getProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
-    if (code === "0x") {
+    if (!contractDeployed) {
+      contractDeployed = providerPool.request(p => p.getCode(config.contractAddress)).then(code => code !== "0x");
+      contractDeployed.catch(() => { contractDeployed = null; });
+    }
+    if (!(await contractDeployed)) {
       return null;
     }
     
@@ -67,7 +36,8 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
+  const { ethereum } = window;
+  if (!ethereum) {
     throw new Error("No injected wallet");
   }
 
@@ -75,12 +45,12 @@ export async function getContractWithSigner() {
   // const network = await provider.getNetwork();
   // console.log("network ID:", network.chainId);
 
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
+  if (ethereum.chainId !== '0xaa36a7') {
     alert("Please switch to Sepolia test network");
   }
 
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const provider = new ethers.BrowserProvider(ethereum);
     const signer = await provider.getSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
@@ -90,6 +60,31 @@ export async function getContractWithSigner() {
   }
 }
 
+// DeviceAuthFHE registry; optional, disabled while config.deviceAuthAddress is empty
+export async function getDeviceAuthWithSigner() {
+  if (!config.deviceAuthAddress) {
+    throw new Error("DeviceAuthFHE address is not configured");
+  }
+  const { ethereum } = window;
+  if (!ethereum) {
+    throw new Error("No injected wallet");
+  }
+
+  const provider = new ethers.BrowserProvider(ethereum);
+  const signer = await provider.getSigner();
+  return new DeviceAuthClient(config.deviceAuthAddress, signer);
+}
+
+// First block for the device indexer, or undefined while a deployment block in config.json is null.
+// Callers then read current adapter state (readAdapterDevices) instead of searching for the deployment
+// block and backfilling logs, which public RPCs without archive access reject.
+export function getIndexerFromBlock(): number | undefined {
+  const blocks: (number | null)[] = [config.contractDeploymentBlock];
+  if (config.deviceAuthAddress) blocks.push(config.deviceAuthDeploymentBlock);
+  if (blocks.some((block) => block === null)) return undefined;
+  return Math.min(...(blocks as number[]));
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
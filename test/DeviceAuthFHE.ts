@@ -0,0 +1,615 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, Signer } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { getKmsVerifier, signPublicDecryption } from "./helpers/kms";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const DeviceState = {
+  Provisioned: 0n,
+  Active: 1n,
+  Suspended: 2n,
+  Revoked: 3n,
+  Decommissioned: 4n,
+};
+
+type DeviceStateName = keyof typeof DeviceState;
+
+/** Mirror of DeviceAuthFHE._canTransition */
+const ALLOWED_TRANSITIONS: Record<DeviceStateName, DeviceStateName[]> = {
+  Provisioned: ["Active", "Suspended", "Revoked"],
+  Active: ["Suspended", "Revoked"],
+  Suspended: ["Active", "Revoked"],
+  Revoked: ["Decommissioned"],
+  Decommissioned: [],
+};
+
+/** Owner calls that bring a newly registered device into each state */
+const PATHS_TO_STATE: Record<DeviceStateName, DeviceStateName[]> = {
+  Provisioned: [],
+  Active: ["Active"],
+  Suspended: ["Suspended"],
+  Revoked: ["Revoked"],
+  Decommissioned: ["Revoked", "Decommissioned"],
+};
+
+/** Key held by the device; registered as its publicKey and used to sign authentication challenges */
+const deviceWallet = ethers.Wallet.createRandom();
+const DEVICE_PUBLIC_KEY = BigInt(deviceWallet.address);
+
+const DEVICE_AUTHENTICATION_TYPES = {
+  DeviceAuthentication: [
+    { name: "deviceKey", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiresAt", type: "uint64" },
+  ],
+};
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("DeviceAuthFHE");
+  // types/ has no checked-in typechain bindings for DeviceAuthFHE, so the contract is used untyped
+  const deviceAuth = (await factory.deploy()) as Contract;
+  const deviceAuthAddress = await deviceAuth.getAddress();
+
+  return { deviceAuth, deviceAuthAddress };
+}
+
+describe("DeviceAuthFHE", function () {
+  let signers: Signers;
+  let deviceAuth: Contract;
+  let deviceAuthAddress: string;
+  let kmsVerifier: Contract;
+
+  function deviceAuthAs(signer: HardhatEthersSigner): Contract {
+    return deviceAuth.connect(signer) as Contract;
+  }
+
+  /**
+   * Encrypts `deviceId` for `owner`; the device key is keccak256 of the external handle
+   */
+  async function encryptDeviceId(owner: HardhatEthersSigner, deviceId: number) {
+    const encrypted = await fhevm.createEncryptedInput(deviceAuthAddress, owner.address).add32(deviceId).encrypt();
+    return { ...encrypted, deviceKey: ethers.keccak256(encrypted.handles[0]) };
+  }
+
+  async function registerDevice(owner: HardhatEthersSigner, deviceId: number): Promise<string> {
+    const { handles, inputProof, deviceKey } = await encryptDeviceId(owner, deviceId);
+    const tx = await deviceAuthAs(owner).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY);
+    await tx.wait();
+    return deviceKey;
+  }
+
+  /**
+   * Owner call that moves a device from `from` to `to` (no call leads back to Provisioned)
+   */
+  function transition(owner: HardhatEthersSigner, deviceKey: string, from: DeviceStateName, to: DeviceStateName) {
+    const contract = deviceAuthAs(owner);
+    switch (to) {
+      case "Active":
+        return from === "Suspended" ? contract.reactivateDevice(deviceKey) : contract.activateDevice(deviceKey);
+      case "Suspended":
+        return contract.suspendDevice(deviceKey, 2);
+      case "Revoked":
+        return contract.revokeDevice(deviceKey, 3);
+      case "Decommissioned":
+        return contract.decommissionDevice(deviceKey, 4);
+      default:
+        throw new Error(`No transition to ${to}`);
+    }
+  }
+
+  async function registerDeviceIn(owner: HardhatEthersSigner, state: DeviceStateName): Promise<string> {
+    const deviceKey = await registerDevice(owner, 1001);
+    let current: DeviceStateName = "Provisioned";
+    for (const next of PATHS_TO_STATE[state]) {
+      await (await transition(owner, deviceKey, current, next)).wait();
+      current = next;
+    }
+    return deviceKey;
+  }
+
+  /**
+   * Arguments accepted by authenticateDevice: the public decryption of the device's encrypted ID
+   * and the device's signature over the contract's current nonce
+   */
+  async function fetchAuthProof(deviceKey: string, signer: Signer = deviceWallet, ttlSeconds = 60n) {
+    const handle: string = await deviceAuth.getEncryptedId(deviceKey);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const nonce: bigint = await deviceAuth.getAuthNonce(deviceKey);
+    const expiresAt = BigInt(await time.latest()) + ttlSeconds;
+    const signature = await signer.signTypedData(
+      { name: "DeviceAuthFHE", version: "1", chainId, verifyingContract: deviceAuthAddress },
+      DEVICE_AUTHENTICATION_TYPES,
+      { deviceKey, nonce, expiresAt },
+    );
+    return { abiEncodedDeviceId: abiEncodedClearValues, authProof: decryptionProof, expiresAt, signature };
+  }
+
+  /**
+   * Proof from the mock KMS signer attesting that the device's encrypted ID belongs to `owner`,
+   * the cleartext verifyDeviceOwnership checks
+   */
+  async function signOwnershipProof(deviceKey: string, owner: string) {
+    const handle: string = await deviceAuth.getEncryptedId(deviceKey);
+    return signPublicDecryption([handle], ethers.AbiCoder.defaultAbiCoder().encode(["address"], [owner]));
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+    kmsVerifier = await getKmsVerifier();
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ deviceAuth, deviceAuthAddress } = await deployFixture());
+  });
+
+  describe("registerDevice", function () {
+    it("registers a provisioned device owned by the sender", async function () {
+      const { handles, inputProof, deviceKey } = await encryptDeviceId(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY))
+        .to.emit(deviceAuth, "DeviceRegistered")
+        .withArgs(deviceKey, signers.alice.address);
+
+      const device = await deviceAuth.getDevice(deviceKey);
+      expect(device.publicKey).to.eq(DEVICE_PUBLIC_KEY);
+      expect(device.owner).to.eq(signers.alice.address);
+      // isActive keeps its original meaning: in service from registration on
+      expect(device.isActive).to.eq(true);
+      expect(device.lastAuthTime).to.eq(0n);
+      expect(device.state).to.eq(DeviceState.Provisioned);
+    });
+
+    it("grants the owner decryption rights on the encrypted ID", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const handle = await deviceAuth.getEncryptedId(deviceKey);
+
+      const clearId = await fhevm.userDecryptEuint(FhevmType.euint32, handle, deviceAuthAddress, signers.alice);
+      expect(clearId).to.eq(1001n);
+    });
+
+    it("rejects an encrypted ID that is already registered", async function () {
+      const { handles, inputProof } = await encryptDeviceId(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY)).wait();
+
+      await expect(
+        deviceAuthAs(signers.alice).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY),
+      ).to.be.revertedWith("Device already registered");
+      await expect(
+        deviceAuthAs(signers.bob).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY),
+      ).to.be.revertedWith("Device already registered");
+    });
+
+    it("rejects an empty input proof", async function () {
+      const { handles } = await encryptDeviceId(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).registerDevice(handles[0], "0x", DEVICE_PUBLIC_KEY)).to.be.revertedWith(
+        "Invalid proof",
+      );
+    });
+
+    it("rejects an input proof bound to another account", async function () {
+      const { handles, inputProof } = await encryptDeviceId(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.bob).registerDevice(handles[0], inputProof, DEVICE_PUBLIC_KEY)).to.be.reverted;
+    });
+  });
+
+  describe("authenticateDevice", function () {
+    it("accepts a device-signed nonce with a valid KMS proof and activates a provisioned device", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+
+      const tx = deviceAuthAs(signers.bob).authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature);
+      await expect(tx)
+        .to.emit(deviceAuth, "DeviceAuthenticated")
+        .withArgs(deviceKey, anyValue)
+        .and.to.emit(deviceAuth, "DeviceStateChanged");
+
+      const device = await deviceAuth.getDevice(deviceKey);
+      expect(device.isActive).to.eq(true);
+      expect(device.state).to.eq(DeviceState.Active);
+      expect(device.lastAuthTime).to.eq(BigInt(await time.latest()));
+      expect(await deviceAuth.getAuthNonce(deviceKey)).to.eq(1n);
+    });
+
+    it("rejects an unknown device", async function () {
+      const { deviceKey } = await encryptDeviceId(signers.alice, 1001);
+
+      await expect(deviceAuth.authenticateDevice(deviceKey, "0x", "0x01", 0, "0x")).to.be.revertedWith(
+        "Device not found",
+      );
+    });
+
+    it("rejects an empty proof", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuth.authenticateDevice(deviceKey, "0x", "0x", 0, "0x")).to.be.revertedWith("Invalid proof");
+    });
+
+    it("rejects a suspended device", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+      await (await deviceAuthAs(signers.alice).deactivateDevice(deviceKey)).wait();
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWith("Device inactive");
+    });
+
+    it("rejects a revoked device", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+      await (await deviceAuthAs(signers.alice).revokeDevice(deviceKey, 5)).wait();
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWith("Device inactive");
+    });
+
+    it("rejects an expired challenge", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+      await time.increase(61);
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWith("Challenge expired");
+    });
+
+    it("rejects a nonce signed by a key other than the device's", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey, signers.alice);
+
+      await expect(
+        deviceAuthAs(signers.alice).authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWith("Invalid device signature");
+    });
+
+    it("rejects a malformed signature", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt } = await fetchAuthProof(deviceKey);
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, "0x1234"),
+      ).to.be.revertedWith("Invalid device signature");
+    });
+
+    it("rejects a signature whose expiry was changed", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt + 3600n, signature),
+      ).to.be.revertedWith("Invalid device signature");
+    });
+
+    it("rejects a replayed authentication once the nonce is consumed", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { abiEncodedDeviceId, authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+      await (await deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature)).wait();
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWith("Invalid device signature");
+
+      const fresh = await fetchAuthProof(deviceKey);
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, fresh.abiEncodedDeviceId, fresh.authProof, fresh.expiresAt, fresh.signature),
+      ).to.emit(deviceAuth, "DeviceAuthenticated");
+      expect(await deviceAuth.getAuthNonce(deviceKey)).to.eq(2n);
+    });
+
+    it("rejects KMS signatures over a different clear value", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { authProof, expiresAt, signature } = await fetchAuthProof(deviceKey);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [1002]);
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, forged, authProof, expiresAt, signature),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+    });
+
+    it("rejects a proof for another device's encrypted ID", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const otherKey = await registerDevice(signers.alice, 1001);
+      const { signature, expiresAt } = await fetchAuthProof(deviceKey);
+      const { abiEncodedDeviceId, authProof } = await fetchAuthProof(otherKey);
+
+      await expect(
+        deviceAuth.authenticateDevice(deviceKey, abiEncodedDeviceId, authProof, expiresAt, signature),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+    });
+  });
+
+  describe("deactivateDevice", function () {
+    it("suspends the device when called by its owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).deactivateDevice(deviceKey))
+        .to.emit(deviceAuth, "DeviceStateChanged")
+        .withArgs(deviceKey, DeviceState.Provisioned, DeviceState.Suspended, 0, anyValue);
+
+      const device = await deviceAuth.getDevice(deviceKey);
+      expect(device.isActive).to.eq(false);
+      expect(device.state).to.eq(DeviceState.Suspended);
+    });
+
+    it("rejects callers other than the owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.bob).deactivateDevice(deviceKey)).to.be.revertedWith("Not device owner");
+      await expect(deviceAuthAs(signers.deployer).deactivateDevice(deviceKey)).to.be.revertedWith("Not device owner");
+      expect((await deviceAuth.getDevice(deviceKey)).state).to.eq(DeviceState.Provisioned);
+    });
+
+    it("rejects an unknown device", async function () {
+      const { deviceKey } = await encryptDeviceId(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).deactivateDevice(deviceKey)).to.be.revertedWith("Not device owner");
+    });
+
+    it("rejects a device that is already suspended", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).deactivateDevice(deviceKey)).wait();
+
+      await expect(deviceAuthAs(signers.alice).deactivateDevice(deviceKey)).to.be.revertedWith(
+        "Invalid state transition",
+      );
+    });
+
+    it("lets the new owner, and only them, deactivate a transferred device", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+      await (await deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).wait();
+
+      await expect(deviceAuthAs(signers.alice).deactivateDevice(deviceKey)).to.be.revertedWith("Not device owner");
+      await expect(deviceAuthAs(signers.bob).deactivateDevice(deviceKey)).to.emit(deviceAuth, "DeviceStateChanged");
+    });
+  });
+
+  describe("lifecycle transitions", function () {
+    const states = Object.keys(ALLOWED_TRANSITIONS) as DeviceStateName[];
+
+    for (const from of states) {
+      for (const to of states.filter((state) => state !== "Provisioned")) {
+        const allowed = ALLOWED_TRANSITIONS[from].includes(to);
+
+        it(`${allowed ? "allows" : "rejects"} ${from} -> ${to}`, async function () {
+          const deviceKey = await registerDeviceIn(signers.alice, from);
+          expect((await deviceAuth.getDevice(deviceKey)).state).to.eq(DeviceState[from]);
+
+          if (!allowed) {
+            await expect(transition(signers.alice, deviceKey, from, to)).to.be.revertedWith("Invalid state transition");
+            expect((await deviceAuth.getDevice(deviceKey)).state).to.eq(DeviceState[from]);
+            return;
+          }
+
+          await expect(transition(signers.alice, deviceKey, from, to))
+            .to.emit(deviceAuth, "DeviceStateChanged")
+            .withArgs(deviceKey, DeviceState[from], DeviceState[to], anyValue, anyValue);
+          const device = await deviceAuth.getDevice(deviceKey);
+          expect(device.state).to.eq(DeviceState[to]);
+          expect(device.isActive).to.eq(to === "Active");
+        });
+      }
+    }
+
+    it("records the reason and time of the latest transition", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).revokeDevice(deviceKey, 3)).wait();
+
+      const device = await deviceAuth.getDevice(deviceKey);
+      expect(device.stateReason).to.eq(3n);
+      expect(device.stateChangedAt).to.eq(BigInt(await time.latest()));
+    });
+
+    it("rejects transitions requested by anyone but the owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(transition(signers.bob, deviceKey, "Provisioned", "Revoked")).to.be.revertedWith("Not device owner");
+    });
+  });
+
+  describe("getOwnerDevices", function () {
+    it("returns only the devices of the calling account", async function () {
+      const aliceFirst = await registerDevice(signers.alice, 1001);
+      const aliceSecond = await registerDevice(signers.alice, 1002);
+      const bobDevice = await registerDevice(signers.bob, 2001);
+
+      expect(await deviceAuthAs(signers.alice).getOwnerDevices()).to.deep.eq([aliceFirst, aliceSecond]);
+      expect(await deviceAuthAs(signers.bob).getOwnerDevices()).to.deep.eq([bobDevice]);
+      expect(await deviceAuthAs(signers.deployer).getOwnerDevices()).to.deep.eq([]);
+    });
+
+    it("moves a device between accounts when a transfer is accepted", async function () {
+      const aliceFirst = await registerDevice(signers.alice, 1001);
+      const aliceSecond = await registerDevice(signers.alice, 1002);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(aliceFirst, signers.bob.address)).wait();
+
+      // Nothing moves until the transfer is accepted
+      expect(await deviceAuthAs(signers.bob).getOwnerDevices()).to.deep.eq([]);
+
+      await (await deviceAuthAs(signers.bob).acceptTransfer(aliceFirst)).wait();
+
+      expect(await deviceAuthAs(signers.alice).getOwnerDevices()).to.deep.eq([aliceSecond]);
+      expect(await deviceAuthAs(signers.bob).getOwnerDevices()).to.deep.eq([aliceFirst]);
+    });
+  });
+
+  describe("ownership transfer", function () {
+    it("records a proposal without changing the owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address))
+        .to.emit(deviceAuth, "DeviceTransferProposed")
+        .withArgs(deviceKey, signers.alice.address, signers.bob.address);
+
+      expect(await deviceAuth.getPendingOwner(deviceKey)).to.eq(signers.bob.address);
+      expect((await deviceAuth.getDevice(deviceKey)).owner).to.eq(signers.alice.address);
+    });
+
+    it("rejects proposals from anyone but the owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.bob).proposeTransfer(deviceKey, signers.bob.address)).to.be.revertedWith(
+        "Not device owner",
+      );
+    });
+
+    it("rejects the zero address and the current owner as new owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+
+      await expect(deviceAuthAs(signers.alice).proposeTransfer(deviceKey, ethers.ZeroAddress)).to.be.revertedWith(
+        "Invalid new owner",
+      );
+      await expect(deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.alice.address)).to.be.revertedWith(
+        "Invalid new owner",
+      );
+    });
+
+    for (const state of ["Revoked", "Decommissioned"] as const) {
+      it(`rejects proposals for a ${state.toLowerCase()} device`, async function () {
+        const deviceKey = await registerDeviceIn(signers.alice, state);
+
+        await expect(deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).to.be.revertedWith(
+          "Device retired",
+        );
+      });
+    }
+
+    it("allows proposals for a suspended device", async function () {
+      const deviceKey = await registerDeviceIn(signers.alice, "Suspended");
+
+      await expect(deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).to.emit(
+        deviceAuth,
+        "DeviceTransferProposed",
+      );
+    });
+
+    it("lets the owner cancel a pending proposal", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+
+      await expect(deviceAuthAs(signers.bob).cancelTransfer(deviceKey)).to.be.revertedWith("Not device owner");
+      await expect(deviceAuthAs(signers.alice).cancelTransfer(deviceKey))
+        .to.emit(deviceAuth, "DeviceTransferCancelled")
+        .withArgs(deviceKey, signers.alice.address);
+
+      expect(await deviceAuth.getPendingOwner(deviceKey)).to.eq(ethers.ZeroAddress);
+      await expect(deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).to.be.revertedWith("Not pending owner");
+      await expect(deviceAuthAs(signers.alice).cancelTransfer(deviceKey)).to.be.revertedWith("No pending transfer");
+    });
+
+    it("transfers the device to the pending owner on acceptance", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+
+      await expect(deviceAuthAs(signers.bob).acceptTransfer(deviceKey))
+        .to.emit(deviceAuth, "DeviceTransferred")
+        .withArgs(deviceKey, signers.alice.address, signers.bob.address);
+
+      expect((await deviceAuth.getDevice(deviceKey)).owner).to.eq(signers.bob.address);
+      expect(await deviceAuth.getPendingOwner(deviceKey)).to.eq(ethers.ZeroAddress);
+    });
+
+    it("rejects acceptance by anyone but the pending owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+
+      await expect(deviceAuthAs(signers.deployer).acceptTransfer(deviceKey)).to.be.revertedWith("Not pending owner");
+      await expect(deviceAuthAs(signers.alice).acceptTransfer(deviceKey)).to.be.revertedWith("Not pending owner");
+    });
+
+    it("rejects acceptance once the device is revoked", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+      await (await deviceAuthAs(signers.alice).revokeDevice(deviceKey, 0)).wait();
+
+      await expect(deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).to.be.revertedWith("Device retired");
+    });
+
+    it("rejects acceptance once the device is decommissioned", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+      await (await deviceAuthAs(signers.alice).revokeDevice(deviceKey, 0)).wait();
+      await (await deviceAuthAs(signers.alice).decommissionDevice(deviceKey, 0)).wait();
+
+      await expect(deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).to.be.revertedWith("Device retired");
+    });
+
+    it("grants the new owner decryption rights on the encrypted ID", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const handle: string = await deviceAuth.getEncryptedId(deviceKey);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, deviceAuthAddress, signers.bob),
+      ).to.be.rejectedWith("is not authorized");
+
+      await (await deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).wait();
+
+      const clearId = await fhevm.userDecryptEuint(FhevmType.euint32, handle, deviceAuthAddress, signers.bob);
+      expect(clearId).to.eq(1001n);
+    });
+  });
+
+  describe("verifyDeviceOwnership", function () {
+    it("accepts KMS signatures attesting the current owner", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const ownershipProof = await signOwnershipProof(deviceKey, signers.alice.address);
+
+      expect(await deviceAuth.verifyDeviceOwnership.staticCall(deviceKey, ownershipProof)).to.eq(true);
+    });
+
+    it("rejects KMS signatures attesting another account", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const ownershipProof = await signOwnershipProof(deviceKey, signers.bob.address);
+
+      await expect(
+        deviceAuth.verifyDeviceOwnership.staticCall(deviceKey, ownershipProof),
+      ).to.be.revertedWithCustomError(kmsVerifier, "KMSInvalidSigner");
+    });
+
+    it("rejects the previous owner's proof after a transfer", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const aliceProof = await signOwnershipProof(deviceKey, signers.alice.address);
+      await (await deviceAuthAs(signers.alice).proposeTransfer(deviceKey, signers.bob.address)).wait();
+      await (await deviceAuthAs(signers.bob).acceptTransfer(deviceKey)).wait();
+
+      await expect(deviceAuth.verifyDeviceOwnership.staticCall(deviceKey, aliceProof)).to.be.revertedWithCustomError(
+        kmsVerifier,
+        "KMSInvalidSigner",
+      );
+      const bobProof = await signOwnershipProof(deviceKey, signers.bob.address);
+      expect(await deviceAuth.verifyDeviceOwnership.staticCall(deviceKey, bobProof)).to.eq(true);
+    });
+
+    it("rejects an empty proof and an unknown device", async function () {
+      const deviceKey = await registerDevice(signers.alice, 1001);
+      const { deviceKey: unknownKey } = await encryptDeviceId(signers.alice, 1002);
+
+      await expect(deviceAuth.verifyDeviceOwnership.staticCall(deviceKey, "0x")).to.be.revertedWith("Invalid proof");
+      await expect(deviceAuth.verifyDeviceOwnership.staticCall(unknownKey, "0x01")).to.be.revertedWith(
+        "Device not found",
+      );
+    });
+  });
+});
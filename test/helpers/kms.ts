@@ -0,0 +1,49 @@
+import { Contract, Wallet } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+const KMS_VERIFIER_ABI = [
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function getKmsSigners() view returns (address[])",
+  "error KMSInvalidSigner(address invalidSigner)",
+];
+
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: "ctHandles", type: "bytes32[]" },
+    { name: "decryptedResult", type: "bytes" },
+    { name: "extraData", type: "bytes" },
+  ],
+};
+
+// @fhevm/hardhat-plugin's default PRIVATE_KEY_KMS_SIGNER, registered with the mock KMSVerifier
+const MOCK_KMS_SIGNER_KEY = "0x388b7680e4e1afa06efbfd45cdd1fe39f3c6af381df6555a19661f283b97de91";
+
+/**
+ * The mock KMSVerifier. A proof that does not match its cleartexts recovers to an
+ * unregistered address, so the contracts under test revert with its KMSInvalidSigner error.
+ */
+export async function getKmsVerifier(): Promise<Contract> {
+  const { KMSVerifierAddress } = await fhevm.getRelayerMetadata();
+  return new Contract(KMSVerifierAddress, KMS_VERIFIER_ABI, ethers.provider);
+}
+
+/**
+ * Public decryption proof (numSigners + signatures + extraData) attesting arbitrary cleartexts,
+ * for checks whose expected cleartext is not the handle's decrypted value
+ */
+export async function signPublicDecryption(handles: string[], abiEncodedCleartexts: string): Promise<string> {
+  const kmsVerifier = await getKmsVerifier();
+  const kmsSigner = new Wallet(MOCK_KMS_SIGNER_KEY);
+  const registered: string[] = await kmsVerifier.getKmsSigners();
+  if (!registered.includes(kmsSigner.address)) {
+    throw new Error(`Mock KMS signer ${kmsSigner.address} is not registered with the KMSVerifier`);
+  }
+
+  const { name, version, chainId, verifyingContract } = await kmsVerifier.eip712Domain();
+  const signature = await kmsSigner.signTypedData({ name, version, chainId, verifyingContract }, PUBLIC_DECRYPT_TYPES, {
+    ctHandles: handles,
+    decryptedResult: abiEncodedCleartexts,
+    extraData: "0x00",
+  });
+  return ethers.concat([ethers.toBeHex(1, 1), signature, "0x00"]);
+}